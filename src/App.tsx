@@ -5,6 +5,7 @@ import { Layout } from './components/layout/Layout';
 import { HomePage } from './pages/HomePage';
 import { SearchPage } from './pages/SearchPage';
 import { ReaderPage } from './pages/ReaderPage';
+import { StorageSettingsPage } from './pages/StorageSettingsPage';
 
 function App() {
   const basename = import.meta.env.DEV ? '/' : '/ToK-Reader';
@@ -17,6 +18,7 @@ function App() {
             <Route path="/" element={<Layout />}>
               <Route index element={<HomePage />} />
               <Route path="search" element={<SearchPage />} />
+              <Route path="settings/storage" element={<StorageSettingsPage />} />
               <Route path=":year/:utteranceId" element={<ReaderPage />} />
             </Route>
           </Routes>
@@ -0,0 +1,77 @@
+import { LOAD_STAGES, type LoadStageProgress } from '@/types/app';
+
+interface LoadingStepperProps {
+  title: string;
+  stages: LoadStageProgress[];
+  onCancel?: () => void;
+}
+
+const STATE_ICONS: Record<LoadStageProgress['state'], string> = {
+  pending: '○',
+  active: '◌',
+  done: '✓',
+  skipped: '–',
+  error: '✕',
+};
+
+const STATE_CLASSES: Record<LoadStageProgress['state'], string> = {
+  pending: 'text-gray-400',
+  active: 'text-blue-700 font-semibold',
+  done: 'text-green-700',
+  skipped: 'text-gray-400',
+  error: 'text-red-600',
+};
+
+/**
+ * Format a stage duration, e.g. 850 → "850 ms", 2400 → "2.4 s"
+ */
+function formatDuration(ms: number): string {
+  return ms < 1000 ? `${Math.round(ms)} ms` : `${(ms / 1000).toFixed(1)} s`;
+}
+
+/**
+ * Stages of loading a database as a checklist, with the progress
+ * of the running stage and how long finished stages took
+ */
+export function LoadingStepper({ title, stages, onCancel }: LoadingStepperProps) {
+  return (
+    <div className="flex flex-col items-center justify-center p-8">
+      <div className="bg-white rounded-lg shadow-md p-6 w-80">
+        <h2 className="font-semibold text-gray-800 mb-4">{title}</h2>
+        <ol className="space-y-2 text-sm">
+          {stages.map((stage) => (
+            <li key={stage.stage} className={STATE_CLASSES[stage.state]}>
+              <div className="flex items-center gap-2">
+                <span className={`w-4 text-center ${stage.state === 'active' ? 'animate-spin' : ''}`}>
+                  {STATE_ICONS[stage.state]}
+                </span>
+                <span className="flex-1">
+                  {LOAD_STAGES.find((entry) => entry.stage === stage.stage)?.label}
+                </span>
+                {stage.duration !== undefined && (
+                  <span className="text-xs text-gray-500">{formatDuration(stage.duration)}</span>
+                )}
+              </div>
+              {stage.state === 'active' && stage.progress > 0 && (
+                <div className="ml-6 mt-1 bg-gray-200 rounded-full h-1.5">
+                  <div
+                    className="bg-blue-600 h-1.5 rounded-full transition-all duration-300"
+                    style={{ width: `${stage.progress}%` }}
+                  ></div>
+                </div>
+              )}
+            </li>
+          ))}
+        </ol>
+        {onCancel && (
+          <button
+            onClick={onCancel}
+            className="mt-4 text-sm text-red-600 hover:text-red-800 font-semibold"
+          >
+            Cancel
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
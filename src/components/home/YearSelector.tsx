@@ -1,18 +1,54 @@
 import { Link } from 'react-router-dom';
-import { AVAILABLE_YEARS } from '@/types/app';
+import { formatBytes } from '@/lib/utils/urlHelpers';
+import type { CorpusManifest } from '@/types/database';
 
-export function YearSelector() {
+interface YearSelectorProps {
+  years: number[];
+  manifest: CorpusManifest | null;
+  isYearAvailable?: (year: number) => boolean; // Years that cannot be opened are greyed out
+}
+
+export function YearSelector({ years, manifest, isYearAvailable }: YearSelectorProps) {
   return (
-    <div className="grid grid-cols-4 sm:grid-cols-6 md:grid-cols-8 lg:grid-cols-10 gap-3">
-      {AVAILABLE_YEARS.map((year) => (
-        <Link
-          key={year}
-          to={`/search?year=${year}`}
-          className="bg-white hover:bg-blue-50 border-2 border-gray-200 hover:border-blue-500 rounded-lg p-4 text-center font-semibold text-gray-700 hover:text-blue-600 transition-all shadow-sm hover:shadow-md"
-        >
-          {year}
-        </Link>
-      ))}
+    <div className="grid grid-cols-3 sm:grid-cols-4 md:grid-cols-6 lg:grid-cols-8 gap-3">
+      {years.map((year) => {
+        const entry = manifest?.years.find((y) => y.year === year);
+
+        if (isYearAvailable && !isYearAvailable(year)) {
+          return (
+            <div
+              key={year}
+              title="Not downloaded, so it cannot be opened offline"
+              className="bg-gray-100 border-2 border-gray-200 rounded-lg p-4 text-center text-gray-400 cursor-not-allowed"
+            >
+              <div className="font-semibold">{year}</div>
+              <div className="mt-1 text-xs font-normal">Offline</div>
+            </div>
+          );
+        }
+
+        return (
+          <Link
+            key={year}
+            to={`/search?year=${year}`}
+            title={
+              entry
+                ? `${entry.utterances.toLocaleString()} utterances by ${entry.speakers.toLocaleString()} speakers, ${formatBytes(entry.size)} download`
+                : undefined
+            }
+            className="bg-white hover:bg-blue-50 border-2 border-gray-200 hover:border-blue-500 rounded-lg p-4 text-center text-gray-700 hover:text-blue-600 transition-all shadow-sm hover:shadow-md"
+          >
+            <div className="font-semibold">{year}</div>
+            {entry && (
+              <div className="mt-1 text-xs font-normal text-gray-500 space-y-0.5">
+                <div>{entry.utterances.toLocaleString()} utt.</div>
+                <div>{entry.speakers.toLocaleString()} speakers</div>
+                <div>{formatBytes(entry.size)}</div>
+              </div>
+            )}
+          </Link>
+        );
+      })}
     </div>
   );
 }
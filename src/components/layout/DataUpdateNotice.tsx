@@ -0,0 +1,26 @@
+import { useDatabaseContext } from '@/context/DatabaseContext';
+
+export function DataUpdateNotice() {
+  const { updatedYears, dismissUpdatedYears } = useDatabaseContext();
+
+  if (updatedYears.length === 0) return null;
+
+  const years = [...updatedYears].sort((a, b) => a - b).join(', ');
+
+  return (
+    <div className="bg-amber-50 border-b border-amber-200">
+      <div className="container mx-auto px-4 py-3 flex items-center justify-between text-sm text-amber-900">
+        <span>
+          <strong>Data updated:</strong> a corrected release is available for {years}.
+          {' '}The new data will be downloaded when you next open {updatedYears.length === 1 ? 'that year' : 'those years'}.
+        </span>
+        <button
+          onClick={dismissUpdatedYears}
+          className="ml-4 text-amber-700 hover:text-amber-900 font-semibold"
+        >
+          ✕
+        </button>
+      </div>
+    </div>
+  );
+}
@@ -1,6 +1,11 @@
 import { Link } from 'react-router-dom';
+import { useManifest } from '@/hooks/useManifest';
+import { useOfflineStatus } from '@/hooks/useOfflineStatus';
 
 export function Header() {
+  const { years } = useManifest();
+  const { online } = useOfflineStatus();
+
   return (
     <header className="bg-blue-600 text-white shadow-lg">
       <div className="container mx-auto px-4 py-4">
@@ -8,14 +13,25 @@ export function Header() {
           <Link to="/" className="text-2xl font-bold">
             ToK Reader
           </Link>
-          <nav className="flex gap-4">
+          <nav className="flex items-center gap-4">
+            {!online && (
+              <span
+                title="Only downloaded years can be opened until the connection returns"
+                className="bg-yellow-400 text-yellow-900 text-xs font-semibold px-2 py-1 rounded"
+              >
+                Offline
+              </span>
+            )}
             <Link to="/" className="hover:text-blue-200">
               Home
             </Link>
+            <Link to="/settings/storage" className="hover:text-blue-200">
+              Storage
+            </Link>
           </nav>
         </div>
         <p className="text-sm text-blue-100 mt-1">
-          Swedish Parliamentary Debates (1900-1940)
+          Swedish Parliamentary Debates ({years[0]}-{years[years.length - 1]})
         </p>
       </div>
     </header>
@@ -1,12 +1,18 @@
 import { Outlet } from 'react-router-dom';
 import { Header } from './Header';
+import { DataUpdateNotice } from './DataUpdateNotice';
+import { RuntimeErrorScreen } from './RuntimeErrorScreen';
+import { useDatabaseContext } from '@/context/DatabaseContext';
 
 export function Layout() {
+  const { runtimeError } = useDatabaseContext();
+
   return (
     <div className="min-h-screen bg-gray-50">
       <Header />
+      <DataUpdateNotice />
       <main className="container mx-auto px-4 py-8">
-        <Outlet />
+        {runtimeError ? <RuntimeErrorScreen message={runtimeError} /> : <Outlet />}
       </main>
     </div>
   );
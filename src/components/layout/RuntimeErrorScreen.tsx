@@ -0,0 +1,35 @@
+interface RuntimeErrorScreenProps {
+  message: string;
+}
+
+export function RuntimeErrorScreen({ message }: RuntimeErrorScreenProps) {
+  return (
+    <div className="flex items-center justify-center py-16">
+      <div className="max-w-lg w-full bg-white shadow-lg rounded-lg p-6">
+        <h1 className="text-2xl font-bold text-red-600 mb-4">
+          The database engine could not be started
+        </h1>
+        <p className="text-gray-700 mb-4">
+          ToK Reader opens the parliamentary records with SQLite compiled to
+          WebAssembly, which runs inside the browser. It failed to start, so no
+          year can be opened.
+        </p>
+        <ul className="list-disc list-inside text-sm text-gray-700 mb-4 space-y-1">
+          <li>Use a current version of Firefox, Chrome, Edge or Safari.</li>
+          <li>Check that WebAssembly is not disabled by a browser policy or extension.</li>
+          <li>If the page was saved or opened offline, reload it once while online.</li>
+        </ul>
+        <details className="text-sm text-gray-600 mb-4">
+          <summary className="cursor-pointer">Technical details</summary>
+          <p className="mt-2 font-mono text-xs break-all">{message}</p>
+        </details>
+        <button
+          onClick={() => window.location.reload()}
+          className="bg-blue-600 text-white px-4 py-2 rounded hover:bg-blue-700"
+        >
+          Reload page
+        </button>
+      </div>
+    </div>
+  );
+}
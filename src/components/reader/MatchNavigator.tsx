@@ -0,0 +1,38 @@
+import type { ReactNode } from 'react';
+
+interface MatchNavigatorProps {
+  label: string;
+  buttonClassName: string; // Colours of the buttons
+  title?: string;
+  onPrevious: () => void;
+  onNext: () => void;
+  children?: ReactNode; // Shown between the buttons
+}
+
+/**
+ * Previous/next buttons for jumping between utterances matching a filter
+ */
+export function MatchNavigator({
+  label,
+  buttonClassName,
+  title,
+  onPrevious,
+  onNext,
+  children,
+}: MatchNavigatorProps) {
+  const className = `px-3 py-0.5 text-white rounded-lg transition-colors flex items-center gap-2 text-sm ${buttonClassName}`;
+
+  return (
+    <div className="flex justify-between items-center">
+      <button onClick={onPrevious} title={title} className={className}>
+        <span>←</span>
+        <span>{label}</span>
+      </button>
+      {children}
+      <button onClick={onNext} title={title} className={className}>
+        <span>{label}</span>
+        <span>→</span>
+      </button>
+    </div>
+  );
+}
@@ -1,14 +1,18 @@
 import { Link } from 'react-router-dom';
+import { HighlightedText } from '@/components/search/HighlightedText';
 import { formatDate } from '@/lib/utils/urlHelpers';
 import { getPartyColor, getContrastTextColor } from '@/lib/utils/partyColors';
+import type { VariantMatch } from '@/lib/search/TextAnalyzer';
 import type { UtteranceWithPerson } from '@/types/database';
 
 interface UtteranceCardProps {
   utterance: UtteranceWithPerson;
   highlighted?: boolean;
+  hits?: VariantMatch[]; // Words the active search matches, marked in the content
+  activeHit?: number; // Index of the hit stepped to
 }
 
-export function UtteranceCard({ utterance, highlighted }: UtteranceCardProps) {
+export function UtteranceCard({ utterance, highlighted, hits, activeHit }: UtteranceCardProps) {
   const partyColor = getPartyColor(utterance.person_party);
   const textColor = getContrastTextColor(partyColor);
 
@@ -94,7 +98,11 @@ export function UtteranceCard({ utterance, highlighted }: UtteranceCardProps) {
 
       {/* Content */}
       <div className="text-gray-700 leading-relaxed prose max-w-none">
-        {utterance.content}
+        {hits && hits.length > 0 ? (
+          <HighlightedText text={utterance.content} spans={hits} activeSpan={activeHit} />
+        ) : (
+          utterance.content
+        )}
       </div>
     </div>
   );
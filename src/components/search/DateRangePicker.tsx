@@ -0,0 +1,142 @@
+import { useState } from 'react';
+import { formatDate } from '@/lib/utils/urlHelpers';
+
+const MONTH_NAMES = [
+  'January', 'February', 'March', 'April', 'May', 'June',
+  'July', 'August', 'September', 'October', 'November', 'December',
+];
+
+// Swedish calendars start the week on Monday
+const WEEKDAYS = ['Mo', 'Tu', 'We', 'Th', 'Fr', 'Sa', 'Su'];
+
+interface DateRangePickerProps {
+  min: number; // YYYYMMDD
+  max: number; // YYYYMMDD
+  sittingDays: Set<number>; // Only these days can be picked
+  dateFrom?: number;
+  dateTo?: number;
+  onChange: (dateFrom: number | undefined, dateTo: number | undefined) => void;
+}
+
+/**
+ * Calendar for picking a date range within one year.
+ * The first click sets the start, the second the end; only sitting days
+ * (days with utterances) are enabled.
+ */
+export function DateRangePicker({
+  min,
+  max,
+  sittingDays,
+  dateFrom,
+  dateTo,
+  onChange,
+}: DateRangePickerProps) {
+  const minMonth = Math.floor(min / 100);
+  const maxMonth = Math.floor(max / 100);
+  const [month, setMonth] = useState(() => {
+    const initial = dateFrom ? Math.floor(dateFrom / 100) : minMonth;
+    return Math.min(Math.max(initial, minMonth), maxMonth);
+  });
+  // Start of a range whose end has not been picked yet
+  const [anchor, setAnchor] = useState<number | null>(null);
+
+  const year = Math.floor(month / 100);
+  const monthIndex = (month % 100) - 1;
+  const daysInMonth = new Date(year, monthIndex + 1, 0).getDate();
+  const leadingBlanks = (new Date(year, monthIndex, 1).getDay() + 6) % 7;
+
+  const shiftMonth = (delta: number) => {
+    const date = new Date(year, monthIndex + delta, 1);
+    setMonth(date.getFullYear() * 100 + date.getMonth() + 1);
+  };
+
+  const handlePick = (day: number) => {
+    if (anchor === null) {
+      setAnchor(day);
+      return;
+    }
+    onChange(Math.min(anchor, day), Math.max(anchor, day));
+    setAnchor(null);
+  };
+
+  const dayClass = (day: number) => {
+    if (!sittingDays.has(day)) return 'text-gray-300 cursor-not-allowed';
+    if (day === anchor || day === dateFrom || day === dateTo) {
+      return 'bg-blue-600 text-white font-semibold';
+    }
+    if (anchor === null && dateFrom && dateTo && day > dateFrom && day < dateTo) {
+      return 'bg-blue-100 text-blue-800';
+    }
+    return 'text-gray-800 hover:bg-blue-50';
+  };
+
+  return (
+    <div className="border border-gray-200 rounded-lg p-3 text-sm w-72">
+      <div className="flex items-center justify-between mb-2">
+        <button
+          onClick={() => shiftMonth(-1)}
+          disabled={month <= minMonth}
+          className="px-2 text-gray-600 hover:text-gray-900 disabled:opacity-30"
+        >
+          ‹
+        </button>
+        <span className="font-semibold text-gray-800">
+          {MONTH_NAMES[monthIndex]} {year}
+        </span>
+        <button
+          onClick={() => shiftMonth(1)}
+          disabled={month >= maxMonth}
+          className="px-2 text-gray-600 hover:text-gray-900 disabled:opacity-30"
+        >
+          ›
+        </button>
+      </div>
+
+      <div className="grid grid-cols-7 gap-1 text-center">
+        {WEEKDAYS.map((weekday) => (
+          <div key={weekday} className="text-xs text-gray-500">
+            {weekday}
+          </div>
+        ))}
+        {Array.from({ length: leadingBlanks }, (_, i) => (
+          <div key={`blank-${i}`}></div>
+        ))}
+        {Array.from({ length: daysInMonth }, (_, i) => {
+          const day = month * 100 + i + 1;
+          return (
+            <button
+              key={day}
+              onClick={() => handlePick(day)}
+              disabled={!sittingDays.has(day)}
+              title={sittingDays.has(day) ? undefined : 'No sitting'}
+              className={`rounded py-1 ${dayClass(day)}`}
+            >
+              {i + 1}
+            </button>
+          );
+        })}
+      </div>
+
+      <div className="mt-2 flex items-center justify-between text-xs text-gray-600">
+        <span>
+          {anchor !== null
+            ? `From ${formatDate(anchor)}, pick the end date`
+            : dateFrom || dateTo
+            ? `${dateFrom ? formatDate(dateFrom) : '…'} – ${dateTo ? formatDate(dateTo) : '…'}`
+            : 'Pick a start date'}
+        </span>
+        {(dateFrom || dateTo || anchor !== null) && (
+          <button
+            onClick={() => {
+              setAnchor(null);
+              onChange(undefined, undefined);
+            }}
+            className="text-blue-600 hover:text-blue-800"
+          >
+            Clear
+          </button>
+        )}
+      </div>
+    </div>
+  );
+}
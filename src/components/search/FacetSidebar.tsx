@@ -0,0 +1,122 @@
+import { getPartyColor } from '@/lib/utils/partyColors';
+import type { SearchFacets } from '@/types/search';
+
+const MONTH_NAMES = ['Jan', 'Feb', 'Mar', 'Apr', 'May', 'Jun', 'Jul', 'Aug', 'Sep', 'Oct', 'Nov', 'Dec'];
+
+const GENDER_LABELS: Record<string, string> = {
+  man: 'Male (♂)',
+  woman: 'Female (♀)',
+};
+
+interface FacetSidebarProps {
+  facets: SearchFacets;
+  selectedParties: string[];
+  selectedGender?: string;
+  selectedSpeaker?: number;
+  selectedMonth?: number; // YYYYMM
+  onToggleParty: (party: string) => void;
+  onSelectGender: (gender: string | undefined) => void;
+  onSelectSpeaker: (speaker: { id: number; name: string } | undefined) => void;
+  onSelectMonth: (month: number | undefined) => void;
+}
+
+/**
+ * Format a YYYYMM month, e.g. 192003 → "Mar 1920"
+ */
+function formatMonth(month: number): string {
+  return `${MONTH_NAMES[(month % 100) - 1] ?? month % 100} ${Math.floor(month / 100)}`;
+}
+
+export function FacetSidebar({
+  facets,
+  selectedParties,
+  selectedGender,
+  selectedSpeaker,
+  selectedMonth,
+  onToggleParty,
+  onSelectGender,
+  onSelectSpeaker,
+  onSelectMonth,
+}: FacetSidebarProps) {
+  const itemClass = (selected: boolean) =>
+    `w-full flex justify-between items-center px-2 py-1 rounded text-left text-sm ${
+      selected ? 'bg-blue-100 text-blue-800 font-semibold' : 'text-gray-700 hover:bg-gray-100'
+    }`;
+
+  return (
+    <aside className="bg-white rounded-lg shadow-md p-4 space-y-6">
+      {/* Party */}
+      <section>
+        <h3 className="text-sm font-semibold text-gray-800 mb-2">Party</h3>
+        {facets.party.length === 0 && <p className="text-xs text-gray-500">No parties</p>}
+        {facets.party.map(({ value, count }) => (
+          <label key={value} className={`${itemClass(selectedParties.includes(value))} cursor-pointer`}>
+            <span className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={selectedParties.includes(value)}
+                onChange={() => onToggleParty(value)}
+              />
+              <span
+                className="inline-block w-2 h-2 rounded-full"
+                style={{ backgroundColor: getPartyColor(value) }}
+              ></span>
+              {value}
+            </span>
+            <span className="text-xs text-gray-500">{count}</span>
+          </label>
+        ))}
+      </section>
+
+      {/* Gender */}
+      <section>
+        <h3 className="text-sm font-semibold text-gray-800 mb-2">Gender</h3>
+        {facets.gender.map(({ value, count }) => (
+          <button
+            key={value}
+            onClick={() => onSelectGender(selectedGender === value ? undefined : value)}
+            className={itemClass(selectedGender === value)}
+          >
+            <span>{GENDER_LABELS[value] ?? value}</span>
+            <span className="text-xs text-gray-500">{count}</span>
+          </button>
+        ))}
+      </section>
+
+      {/* Top speakers */}
+      <section>
+        <h3 className="text-sm font-semibold text-gray-800 mb-2">Top Speakers</h3>
+        {facets.speaker.map(({ value, name, party, count }) => (
+          <button
+            key={value}
+            onClick={() =>
+              onSelectSpeaker(selectedSpeaker === value ? undefined : { id: value, name })
+            }
+            className={itemClass(selectedSpeaker === value)}
+          >
+            <span className="truncate">
+              {name}
+              {party && <span className="ml-1 text-xs text-gray-500">({party})</span>}
+            </span>
+            <span className="text-xs text-gray-500 ml-2">{count}</span>
+          </button>
+        ))}
+      </section>
+
+      {/* Month */}
+      <section>
+        <h3 className="text-sm font-semibold text-gray-800 mb-2">Month</h3>
+        {facets.month.map(({ value, count }) => (
+          <button
+            key={value}
+            onClick={() => onSelectMonth(selectedMonth === value ? undefined : value)}
+            className={itemClass(selectedMonth === value)}
+          >
+            <span>{formatMonth(value)}</span>
+            <span className="text-xs text-gray-500">{count}</span>
+          </button>
+        ))}
+      </section>
+    </aside>
+  );
+}
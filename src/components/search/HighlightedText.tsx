@@ -0,0 +1,69 @@
+import { useMemo } from 'react';
+
+interface HighlightedTextProps {
+  text: string;
+  words?: string[];
+  spans?: { start: number; end: number }[]; // Marked instead of words when given, in text order
+  activeSpan?: number; // Index of the span to mark as the current one
+}
+
+/**
+ * Render text with whole-word occurrences of the given words, or the given
+ * spans, marked. Built from React elements, never HTML, so the text cannot
+ * inject markup.
+ */
+export function HighlightedText({ text, words, spans, activeSpan }: HighlightedTextProps) {
+  const parts = useMemo(() => {
+    if (spans) {
+      const result: { text: string; marked: boolean; span?: number }[] = [];
+      let last = 0;
+      spans.forEach((span, index) => {
+        if (span.start > last) result.push({ text: text.slice(last, span.start), marked: false });
+        result.push({ text: text.slice(span.start, span.end), marked: true, span: index });
+        last = span.end;
+      });
+      if (last < text.length) result.push({ text: text.slice(last), marked: false });
+      return result;
+    }
+
+    if (!words || words.length === 0) return [{ text, marked: false }];
+
+    const escaped = words.map((word) => word.replace(/[.*+?^${}()|[\]\\]/g, '\\$&'));
+    const pattern = new RegExp(
+      `(?<![\\p{L}\\p{N}])(?:${escaped.join('|')})(?![\\p{L}\\p{N}])`,
+      'gu'
+    );
+
+    const result: { text: string; marked: boolean }[] = [];
+    let last = 0;
+    for (const match of text.matchAll(pattern)) {
+      const start = match.index ?? 0;
+      if (start > last) result.push({ text: text.slice(last, start), marked: false });
+      result.push({ text: match[0], marked: true });
+      last = start + match[0].length;
+    }
+    if (last < text.length) result.push({ text: text.slice(last), marked: false });
+    return result;
+  }, [text, words, spans]);
+
+  return (
+    <>
+      {parts.map((part, index) =>
+        part.marked ? (
+          <mark
+            key={index}
+            className={`rounded px-0.5 ${
+              'span' in part && part.span === activeSpan
+                ? 'bg-orange-300 ring-2 ring-orange-500'
+                : 'bg-yellow-200'
+            }`}
+          >
+            {part.text}
+          </mark>
+        ) : (
+          <span key={index}>{part.text}</span>
+        )
+      )}
+    </>
+  );
+}
@@ -0,0 +1,32 @@
+interface PaginationProps {
+  page: number;
+  pageCount: number;
+  onPageChange: (page: number) => void;
+}
+
+export function Pagination({ page, pageCount, onPageChange }: PaginationProps) {
+  if (pageCount <= 1) return null;
+
+  const buttonClass =
+    'px-3 py-1 border border-gray-300 rounded hover:bg-gray-100 disabled:opacity-40 disabled:hover:bg-transparent';
+
+  return (
+    <div className="flex items-center justify-center gap-2 mt-6 text-sm">
+      <button onClick={() => onPageChange(1)} disabled={page === 1} className={buttonClass}>
+        « First
+      </button>
+      <button onClick={() => onPageChange(page - 1)} disabled={page === 1} className={buttonClass}>
+        ‹ Previous
+      </button>
+      <span className="px-2 text-gray-700">
+        Page {page} of {pageCount}
+      </span>
+      <button onClick={() => onPageChange(page + 1)} disabled={page === pageCount} className={buttonClass}>
+        Next ›
+      </button>
+      <button onClick={() => onPageChange(pageCount)} disabled={page === pageCount} className={buttonClass}>
+        Last »
+      </button>
+    </div>
+  );
+}
@@ -0,0 +1,24 @@
+import type { SnippetFragment } from '@/types/search';
+import { HighlightedText } from './HighlightedText';
+
+interface SnippetProps {
+  fragments: SnippetFragment[];
+}
+
+/**
+ * Render the fragments of a search result snippet with their matches marked,
+ * joined by ellipses where text was left out
+ */
+export function Snippet({ fragments }: SnippetProps) {
+  return (
+    <>
+      {fragments.map((fragment, index) => (
+        <span key={index}>
+          {index > 0 ? ' ... ' : fragment.cutStart && '...'}
+          <HighlightedText text={fragment.text} spans={fragment.highlights} />
+          {index === fragments.length - 1 && fragment.cutEnd && '...'}
+        </span>
+      ))}
+    </>
+  );
+}
@@ -0,0 +1,111 @@
+import { useState } from 'react';
+import {
+  getDefaultSpellingRules,
+  getUserSpellingRules,
+  saveUserSpellingRules,
+  validateSpellingRule,
+  type SpellingRule,
+} from '@/lib/search/SpellingNormalizer';
+
+interface SpellingRulesEditorProps {
+  onChange: () => void;
+}
+
+/**
+ * Lists the built-in spelling rules and lets the user add their own.
+ * Rules are regular expressions applied to each lower-cased word.
+ */
+export function SpellingRulesEditor({ onChange }: SpellingRulesEditorProps) {
+  const [userRules, setUserRules] = useState<SpellingRule[]>(getUserSpellingRules);
+  const [pattern, setPattern] = useState('');
+  const [replacement, setReplacement] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const updateRules = (rules: SpellingRule[]) => {
+    saveUserSpellingRules(rules);
+    setUserRules(rules);
+    onChange();
+  };
+
+  const handleAdd = () => {
+    const rule: SpellingRule = { pattern: pattern.trim(), replacement: replacement.trim() };
+    const validationError = validateSpellingRule(rule);
+    if (validationError) {
+      setError(validationError);
+      return;
+    }
+    updateRules([...userRules, rule]);
+    setPattern('');
+    setReplacement('');
+    setError(null);
+  };
+
+  return (
+    <div className="mt-2 border border-gray-200 rounded-lg p-4 text-sm">
+      <p className="text-gray-600 mb-2">
+        Each rule replaces a regular expression in every word, in order.
+        ^ and $ match the start and end of a word.
+      </p>
+
+      <table className="w-full mb-3">
+        <thead>
+          <tr className="text-left text-gray-500">
+            <th className="font-medium py-1">Pattern</th>
+            <th className="font-medium py-1">Replacement</th>
+            <th className="font-medium py-1">Example</th>
+            <th></th>
+          </tr>
+        </thead>
+        <tbody>
+          {getDefaultSpellingRules().map((rule) => (
+            <tr key={`default-${rule.pattern}`} className="text-gray-700">
+              <td className="py-1 font-mono">{rule.pattern}</td>
+              <td className="py-1 font-mono">{rule.replacement}</td>
+              <td className="py-1">{rule.description}</td>
+              <td className="py-1 text-gray-400">Built-in</td>
+            </tr>
+          ))}
+          {userRules.map((rule, index) => (
+            <tr key={`user-${index}`} className="text-gray-700">
+              <td className="py-1 font-mono">{rule.pattern}</td>
+              <td className="py-1 font-mono">{rule.replacement}</td>
+              <td className="py-1">{rule.description}</td>
+              <td className="py-1">
+                <button
+                  onClick={() => updateRules(userRules.filter((_, i) => i !== index))}
+                  className="text-red-600 hover:text-red-800"
+                >
+                  Remove
+                </button>
+              </td>
+            </tr>
+          ))}
+        </tbody>
+      </table>
+
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={pattern}
+          onChange={(e) => setPattern(e.target.value)}
+          placeholder="Pattern, e.g. ^th"
+          className="flex-1 px-3 py-1 border border-gray-300 rounded font-mono"
+        />
+        <input
+          type="text"
+          value={replacement}
+          onChange={(e) => setReplacement(e.target.value)}
+          placeholder="Replacement, e.g. t"
+          className="flex-1 px-3 py-1 border border-gray-300 rounded font-mono"
+        />
+        <button
+          onClick={handleAdd}
+          className="bg-gray-100 border border-gray-300 px-3 py-1 rounded hover:bg-gray-200"
+        >
+          Add rule
+        </button>
+      </div>
+      {error && <p className="mt-1 text-red-600">{error}</p>}
+    </div>
+  );
+}
@@ -1,23 +1,101 @@
-import React, { createContext, useContext, useState, useCallback } from 'react';
+import React, { createContext, useContext, useState, useCallback, useEffect } from 'react';
 import { databaseManager } from '@/lib/database/DatabaseManager';
-import type { Database } from '@/types/database';
-import type { DatabaseLoadingProgress } from '@/types/app';
+import { RuntimeInitError, isAbortError } from '@/lib/database/DownloadError';
+import { LOAD_STAGES, type DatabaseLoadingProgress, type LoadStageProgress } from '@/types/app';
+import type { LoadStage } from '@/lib/database/DatabaseLoader';
+import type { MemoryStatus } from '@/types/database';
 
 interface DatabaseContextValue {
-  loadDatabase: (year: number) => Promise<Database>;
+  loadDatabase: (year: number, signal?: AbortSignal) => Promise<void>;
   isLoaded: (year: number) => boolean;
   loadingStates: Map<number, DatabaseLoadingProgress>;
   clearCache: (year?: number) => Promise<void>;
+  updatedYears: number[];
+  dismissUpdatedYears: () => void;
+  memoryStatus: MemoryStatus;
+  runtimeError: string | null; // Set when the SQLite runtime cannot start
 }
 
 const DatabaseContext = createContext<DatabaseContextValue | null>(null);
 
+/**
+ * End a stage: a running one is done (or failed) and timed,
+ * one that never started was skipped
+ * @param stage Stage progress
+ * @param state How the load ended
+ * @returns Updated stage progress
+ */
+function endStage(stage: LoadStageProgress, state: 'done' | 'error'): LoadStageProgress {
+  if (stage.state === 'active') {
+    return {
+      ...stage,
+      state,
+      progress: state === 'done' ? 100 : stage.progress,
+      duration: performance.now() - (stage.startedAt ?? performance.now()),
+    };
+  }
+  if (stage.state === 'pending' && state === 'done') {
+    return { ...stage, state: 'skipped' };
+  }
+  return stage;
+}
+
+/**
+ * Move on to the stage a progress report is about, ending the stages before it
+ * @param stages Stage progress in LOAD_STAGES order
+ * @param stage Stage the report is about
+ * @param progress Progress of that stage (0-100)
+ * @returns Updated stage progress
+ */
+function advanceStages(
+  stages: LoadStageProgress[],
+  stage: LoadStage,
+  progress: number
+): LoadStageProgress[] {
+  const index = stages.findIndex((entry) => entry.stage === stage);
+  return stages.map((entry, i) => {
+    if (i < index) return endStage(entry, 'done');
+    if (i > index) return entry;
+    return entry.state === 'active'
+      ? { ...entry, progress }
+      : { ...entry, state: 'active', progress, startedAt: performance.now() };
+  });
+}
+
 export function DatabaseProvider({ children }: { children: React.ReactNode }) {
   const [loadingStates, setLoadingStates] = useState<
     Map<number, DatabaseLoadingProgress>
   >(new Map());
+  const [updatedYears, setUpdatedYears] = useState<number[]>([]);
+  const [runtimeError, setRuntimeError] = useState<string | null>(null);
+  const [memoryStatus, setMemoryStatus] = useState<MemoryStatus>(() =>
+    databaseManager.getMemoryStatus()
+  );
+
+  // Follow the databases the worker holds in memory
+  useEffect(() => databaseManager.onMemoryChange(setMemoryStatus), []);
+
+  // Drop cached years that were republished since they were downloaded
+  useEffect(() => {
+    databaseManager
+      .checkForUpdates()
+      .then(setUpdatedYears)
+      .catch((error) => console.warn('Failed to check for data updates:', error));
+  }, []);
+
+  const loadDatabase = useCallback(async (year: number, signal?: AbortSignal): Promise<void> => {
+    const update = (
+      change: (current: DatabaseLoadingProgress) => DatabaseLoadingProgress
+    ) => {
+      setLoadingStates((prev) => {
+        const current = prev.get(year);
+        if (!current) return prev;
+        const next = new Map(prev);
+        next.set(year, change(current));
+        return next;
+      });
+    };
 
-  const loadDatabase = useCallback(async (year: number): Promise<Database> => {
     // Set loading state
     setLoadingStates((prev) => {
       const next = new Map(prev);
@@ -26,50 +104,48 @@ export function DatabaseProvider({ children }: { children: React.ReactNode }) {
         state: 'loading',
         progress: 0,
         message: 'Loading database...',
+        stages: LOAD_STAGES.map(({ stage }) => ({ stage, state: 'pending', progress: 0 })),
       });
       return next;
     });
 
     try {
-      const db = await databaseManager.loadDatabase(year, (progress) => {
-        setLoadingStates((prev) => {
-          const next = new Map(prev);
-          next.set(year, {
-            year,
-            state: 'loading',
-            progress: progress.percentage,
-            message: `Downloading... ${progress.percentage}%`,
-          });
-          return next;
-        });
-      });
+      await databaseManager.loadDatabase(year, (progress) => {
+        const label = LOAD_STAGES.find((entry) => entry.stage === progress.stage)?.label;
+        update((current) => ({
+          ...current,
+          progress: progress.percentage,
+          message:
+            progress.stage === 'download'
+              ? `${label}... ${progress.percentage}%`
+              : `${label}...`,
+          stages: advanceStages(current.stages, progress.stage, progress.percentage),
+        }));
+      }, signal);
 
       // Set success state
-      setLoadingStates((prev) => {
-        const next = new Map(prev);
-        next.set(year, {
-          year,
-          state: 'success',
-          progress: 100,
-          message: 'Database loaded',
-        });
-        return next;
-      });
-
-      return db;
+      update((current) => ({
+        ...current,
+        state: 'success',
+        progress: 100,
+        message: 'Database loaded',
+        stages: current.stages.map((stage) => endStage(stage, 'done')),
+      }));
     } catch (error) {
+      // Without a runtime no year can be opened, so the whole app shows it
+      if (error instanceof RuntimeInitError) {
+        setRuntimeError(error.message);
+      }
+
       // Set error state
-      setLoadingStates((prev) => {
-        const next = new Map(prev);
-        next.set(year, {
-          year,
-          state: 'error',
-          progress: 0,
-          message: 'Failed to load database',
-          error: error instanceof Error ? error.message : 'Unknown error',
-        });
-        return next;
-      });
+      update((current) => ({
+        ...current,
+        state: 'error',
+        progress: 0,
+        message: isAbortError(error) ? 'Download cancelled' : 'Failed to load database',
+        error: error instanceof Error ? error.message : 'Unknown error',
+        stages: current.stages.map((stage) => endStage(stage, 'error')),
+      }));
 
       throw error;
     }
@@ -93,11 +169,17 @@ export function DatabaseProvider({ children }: { children: React.ReactNode }) {
     }
   }, []);
 
+  const dismissUpdatedYears = useCallback(() => setUpdatedYears([]), []);
+
   const value: DatabaseContextValue = {
     loadDatabase,
     isLoaded,
     loadingStates,
     clearCache,
+    updatedYears,
+    dismissUpdatedYears,
+    memoryStatus,
+    runtimeError,
   };
 
   return (
@@ -1,18 +1,20 @@
-import { useState, useEffect } from 'react';
+import { useState, useEffect, useRef, useCallback } from 'react';
 import { useDatabaseContext } from '@/context/DatabaseContext';
-import type { Database } from '@/types/database';
+import { isAbortError } from '@/lib/database/DownloadError';
 import type { LoadingState } from '@/types/app';
 
 /**
  * Hook to load and access a database for a given year
  * @param year Year of the database to load
- * @returns Database, loading state, and error
+ * @returns Loading state, progress by stage and error, with functions to cancel
+ *   the download and to try again
  */
 export function useDatabase(year: number) {
-  const { loadDatabase, isLoaded } = useDatabaseContext();
-  const [database, setDatabase] = useState<Database | null>(null);
+  const { loadDatabase, isLoaded, loadingStates } = useDatabaseContext();
   const [loading, setLoading] = useState<LoadingState>('idle');
   const [error, setError] = useState<string | null>(null);
+  const [attempt, setAttempt] = useState(0);
+  const controllerRef = useRef<AbortController | null>(null);
 
   useEffect(() => {
     let cancelled = false;
@@ -26,15 +28,24 @@ export function useDatabase(year: number) {
       setLoading('loading');
       setError(null);
 
+      // Leaving the page does not abort: the download continues for when it is needed
+      const controller = new AbortController();
+      controllerRef.current = controller;
+
       try {
-        const db = await loadDatabase(year);
+        await loadDatabase(year, controller.signal);
         if (!cancelled) {
-          setDatabase(db);
           setLoading('success');
         }
       } catch (err) {
         if (!cancelled) {
-          setError(err instanceof Error ? err.message : 'Failed to load database');
+          setError(
+            isAbortError(err)
+              ? 'Download cancelled'
+              : err instanceof Error
+              ? err.message
+              : 'Failed to load database'
+          );
           setLoading('error');
         }
       }
@@ -45,7 +56,18 @@ export function useDatabase(year: number) {
     return () => {
       cancelled = true;
     };
-  }, [year, loadDatabase, isLoaded]);
+  }, [year, attempt, loadDatabase, isLoaded]);
+
+  const cancel = useCallback(() => controllerRef.current?.abort(), []);
+  const retry = useCallback(() => setAttempt((prev) => prev + 1), []);
 
-  return { database, loading, error, isLoaded: isLoaded(year) };
+  return {
+    loading,
+    error,
+    progress: loadingStates.get(year)?.progress,
+    stages: loadingStates.get(year)?.stages,
+    isLoaded: isLoaded(year),
+    cancel,
+    retry,
+  };
 }
@@ -0,0 +1,18 @@
+import { useState, useEffect } from 'react';
+
+/**
+ * Hook to follow a value only once it has stopped changing for a while
+ * @param value Value that changes, e.g. with each keystroke
+ * @param delay Milliseconds the value must stay the same
+ * @returns The value as of the last pause
+ */
+export function useDebouncedValue<T>(value: T, delay: number): T {
+  const [debounced, setDebounced] = useState(value);
+
+  useEffect(() => {
+    const timeout = setTimeout(() => setDebounced(value), delay);
+    return () => clearTimeout(timeout);
+  }, [value, delay]);
+
+  return debounced;
+}
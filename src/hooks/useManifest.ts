@@ -0,0 +1,29 @@
+import { useState, useEffect } from 'react';
+import { getAvailableYears, manifestLoader } from '@/lib/database/ManifestLoader';
+import type { CorpusManifest } from '@/types/database';
+
+/**
+ * Hook to access the corpus manifest
+ * @returns Manifest (null until loaded or if unavailable), available years and loading flag
+ */
+export function useManifest() {
+  const [manifest, setManifest] = useState<CorpusManifest | null>(null);
+  const [loading, setLoading] = useState(true);
+
+  useEffect(() => {
+    let cancelled = false;
+
+    manifestLoader.load().then((loaded) => {
+      if (!cancelled) {
+        setManifest(loaded);
+        setLoading(false);
+      }
+    });
+
+    return () => {
+      cancelled = true;
+    };
+  }, []);
+
+  return { manifest, years: getAvailableYears(manifest), loading };
+}
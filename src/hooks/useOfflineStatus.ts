@@ -0,0 +1,53 @@
+import { useState, useEffect, useCallback } from 'react';
+import { databaseManager } from '@/lib/database/DatabaseManager';
+
+/**
+ * Hook to follow the network connection and which years can be opened without it
+ * @returns Online flag and a check whether a year is available
+ */
+export function useOfflineStatus() {
+  const [online, setOnline] = useState(() => navigator.onLine);
+  const [cachedYears, setCachedYears] = useState<Set<number>>(new Set());
+
+  useEffect(() => {
+    const update = () => setOnline(navigator.onLine);
+    window.addEventListener('online', update);
+    window.addEventListener('offline', update);
+
+    return () => {
+      window.removeEventListener('online', update);
+      window.removeEventListener('offline', update);
+    };
+  }, []);
+
+  // Which years are downloaded only matters once the connection is gone
+  useEffect(() => {
+    if (online) return;
+    let cancelled = false;
+
+    databaseManager
+      .getCacheStats()
+      .then((stats) => {
+        if (!cancelled) setCachedYears(new Set(stats.cachedYears));
+      })
+      .catch(() => {
+        // Without cache statistics only the databases in memory count
+      });
+
+    return () => {
+      cancelled = true;
+    };
+  }, [online]);
+
+  /**
+   * Check whether a year can be opened now
+   * @param year Year of the database
+   * @returns true when online, or when the year is downloaded or in memory
+   */
+  const isYearAvailable = useCallback(
+    (year: number) => online || cachedYears.has(year) || databaseManager.isLoaded(year),
+    [online, cachedYears]
+  );
+
+  return { online, isYearAvailable };
+}
@@ -1,16 +1,26 @@
 import { openDB, type IDBPDatabase } from 'idb';
 import { config } from '../utils/config';
-import type { DatabaseCacheEntry } from '@/types/database';
+import type {
+  DatabaseCacheEntry,
+  DatabaseCacheInfo,
+  PartialDownloadChunk,
+} from '@/types/database';
 
 /**
  * Database Cache using IndexedDB
- * Provides persistent storage for database files across sessions
+ * Provides persistent storage for database files across sessions.
+ * A second store keeps each entry's metadata, so cached years can be
+ * listed without reading the database files. The cache stays within
+ * config.maxCacheBytes by evicting the least recently used years.
+ * A third store keeps the chunks of interrupted downloads until they resume.
  */
 export class DatabaseCache {
   private db: IDBPDatabase | null = null;
   private readonly dbName = config.cacheDbName;
   private readonly storeName = config.cacheStoreName;
-  private readonly version = 1;
+  private readonly infoStoreName = config.cacheInfoStoreName;
+  private readonly downloadStoreName = config.cacheDownloadStoreName;
+  private readonly version = 4;
 
   /**
    * Initialize the IndexedDB database
@@ -19,13 +29,50 @@ export class DatabaseCache {
     if (this.db) return;
 
     this.db = await openDB(this.dbName, this.version, {
-      upgrade(db) {
+      async upgrade(db, oldVersion, _newVersion, transaction) {
         // Create object store for databases
         if (!db.objectStoreNames.contains(config.cacheStoreName)) {
-          const store = db.createObjectStore(config.cacheStoreName, {
+          db.createObjectStore(config.cacheStoreName, { keyPath: 'year' });
+        }
+
+        // Create object store for entry metadata; its timestamp index
+        // (last access) orders entries for LRU eviction
+        if (!db.objectStoreNames.contains(config.cacheInfoStoreName)) {
+          const infoStore = db.createObjectStore(config.cacheInfoStoreName, {
             keyPath: 'year',
           });
-          store.createIndex('timestamp', 'timestamp');
+          infoStore.createIndex('timestamp', 'timestamp');
+        } else if (!transaction.objectStore(config.cacheInfoStoreName).indexNames.contains('timestamp')) {
+          transaction.objectStore(config.cacheInfoStoreName).createIndex('timestamp', 'timestamp');
+        }
+
+        // Create object store for chunks of interrupted downloads
+        if (!db.objectStoreNames.contains(config.cacheDownloadStoreName)) {
+          db.createObjectStore(config.cacheDownloadStoreName, { keyPath: ['year', 'offset'] });
+        }
+
+        // Up to version 2 the timestamp index was on the data store (download time)
+        const dataStore = transaction.objectStore(config.cacheStoreName);
+        if (dataStore.indexNames.contains('timestamp')) {
+          dataStore.deleteIndex('timestamp');
+        }
+
+        if (oldVersion === 0 || oldVersion >= 3) return;
+
+        // Rebuild the metadata: version 1 had none, version 2 had no download time
+        let cursor = await dataStore.openCursor();
+        while (cursor) {
+          const entry = cursor.value as DatabaseCacheEntry;
+          const info: DatabaseCacheInfo = {
+            year: entry.year,
+            version: entry.version,
+            checksum: entry.checksum ?? null,
+            size: entry.data.byteLength,
+            downloaded: entry.timestamp,
+            timestamp: entry.timestamp,
+          };
+          await transaction.objectStore(config.cacheInfoStoreName).put(info);
+          cursor = await cursor.continue();
         }
       },
     });
@@ -34,9 +81,11 @@ export class DatabaseCache {
   /**
    * Get a cached database by year
    * @param year Year of the database
+   * @param checksum Checksum of the currently published file, if known;
+   *   an entry downloaded from another file is dropped
    * @returns Cached database data or null if not found
    */
-  async get(year: number): Promise<Uint8Array | null> {
+  async get(year: number, checksum?: string | null): Promise<Uint8Array | null> {
     await this.init();
 
     if (!this.db) return null;
@@ -49,12 +98,16 @@ export class DatabaseCache {
 
       if (!entry) return null;
 
-      // Check if cache is still valid (version matches)
-      if (entry.version !== config.cacheVersion) {
+      // Check if cache is still valid (version and source file match)
+      if (
+        entry.version !== config.cacheVersion ||
+        (checksum && entry.checksum !== checksum)
+      ) {
         await this.delete(year);
         return null;
       }
 
+      await this.touch(year);
       return entry.data;
     } catch (error) {
       console.error(`Failed to get cached database for year ${year}:`, error);
@@ -63,32 +116,137 @@ export class DatabaseCache {
   }
 
   /**
-   * Store a database in the cache
+   * Store a database in the cache, evicting least recently used years
+   * to stay within the byte budget. When the browser's quota runs out
+   * anyway, older years are evicted one by one and the write retried.
+   * Re-storing the same file (e.g. with indexes added) keeps its download time.
    * @param year Year of the database
    * @param data Database data
+   * @param checksum Manifest checksum of the file the data came from
    */
-  async set(year: number, data: Uint8Array): Promise<void> {
+  async set(year: number, data: Uint8Array, checksum: string | null): Promise<void> {
     await this.init();
 
     if (!this.db) {
       throw new Error('Database cache not initialized');
     }
 
+    if (data.byteLength > config.maxCacheBytes) {
+      throw new Error(`Database for year ${year} is larger than the cache budget`);
+    }
+
     try {
+      await this.evictToFit(data.byteLength, year);
+
+      const now = Date.now();
+      const previous: DatabaseCacheInfo | undefined = await this.db.get(this.infoStoreName, year);
+      const downloaded =
+        previous && previous.version === config.cacheVersion && previous.checksum === checksum
+          ? previous.downloaded
+          : now;
       const entry: DatabaseCacheEntry = {
         year,
         data,
-        timestamp: Date.now(),
+        timestamp: now,
         version: config.cacheVersion,
+        checksum,
+      };
+      const info: DatabaseCacheInfo = {
+        year,
+        version: config.cacheVersion,
+        checksum,
+        size: data.byteLength,
+        downloaded,
+        timestamp: now,
       };
 
-      await this.db.put(this.storeName, entry);
+      while (true) {
+        try {
+          const tx = this.db.transaction([this.storeName, this.infoStoreName], 'readwrite');
+          await Promise.all([
+            tx.objectStore(this.storeName).put(entry),
+            tx.objectStore(this.infoStoreName).put(info),
+            tx.done,
+          ]);
+          return;
+        } catch (error) {
+          if (!this.isQuotaError(error) || !(await this.evictOldest(year))) {
+            throw error;
+          }
+          console.warn(`Storage quota exceeded, retrying cache write for year ${year}`);
+        }
+      }
     } catch (error) {
       console.error(`Failed to cache database for year ${year}:`, error);
       throw error;
     }
   }
 
+  /**
+   * Record an access, making the year the most recently used
+   * @param year Year of the database
+   */
+  private async touch(year: number): Promise<void> {
+    if (!this.db) return;
+
+    const info: DatabaseCacheInfo | undefined = await this.db.get(this.infoStoreName, year);
+    if (info) {
+      await this.db.put(this.infoStoreName, { ...info, timestamp: Date.now() });
+    }
+  }
+
+  /**
+   * Evict least recently used years until an entry of the given size fits the budget
+   * @param size Bytes of the entry to store
+   * @param year Year being stored (its old entry is replaced, not counted)
+   */
+  private async evictToFit(size: number, year: number): Promise<void> {
+    if (!this.db) return;
+
+    const entries: DatabaseCacheInfo[] = await this.db.getAllFromIndex(
+      this.infoStoreName,
+      'timestamp'
+    );
+    const others = entries.filter((entry) => entry.year !== year);
+    let total = others.reduce((sum, entry) => sum + entry.size, 0);
+
+    for (const entry of others) {
+      if (total + size <= config.maxCacheBytes) break;
+      console.log(`Evicting cached database for year ${entry.year} (cache budget)`);
+      await this.delete(entry.year);
+      total -= entry.size;
+    }
+  }
+
+  /**
+   * Evict the least recently used year
+   * @param keep Year that must not be evicted
+   * @returns false if there was nothing left to evict
+   */
+  private async evictOldest(keep: number): Promise<boolean> {
+    if (!this.db) return false;
+
+    const entries: DatabaseCacheInfo[] = await this.db.getAllFromIndex(
+      this.infoStoreName,
+      'timestamp'
+    );
+    const oldest = entries.find((entry) => entry.year !== keep);
+    if (!oldest) return false;
+
+    console.log(`Evicting cached database for year ${oldest.year} (storage quota)`);
+    await this.delete(oldest.year);
+    return true;
+  }
+
+  /**
+   * Check whether an error means the browser's storage quota is exhausted
+   * @param error Error thrown by IndexedDB
+   * @returns true for quota errors
+   */
+  private isQuotaError(error: unknown): boolean {
+    return error instanceof DOMException && error.name === 'QuotaExceededError';
+  }
+
   /**
    * Delete a cached database
    * @param year Year of the database to delete
@@ -99,7 +257,12 @@ export class DatabaseCache {
     if (!this.db) return;
 
     try {
-      await this.db.delete(this.storeName, year);
+      const tx = this.db.transaction([this.storeName, this.infoStoreName], 'readwrite');
+      await Promise.all([
+        tx.objectStore(this.storeName).delete(year),
+        tx.objectStore(this.infoStoreName).delete(year),
+        tx.done,
+      ]);
     } catch (error) {
       console.error(`Failed to delete cached database for year ${year}:`, error);
     }
@@ -114,12 +277,85 @@ export class DatabaseCache {
     if (!this.db) return;
 
     try {
-      await this.db.clear(this.storeName);
+      const tx = this.db.transaction(
+        [this.storeName, this.infoStoreName, this.downloadStoreName],
+        'readwrite'
+      );
+      await Promise.all([
+        tx.objectStore(this.storeName).clear(),
+        tx.objectStore(this.infoStoreName).clear(),
+        tx.objectStore(this.downloadStoreName).clear(),
+        tx.done,
+      ]);
     } catch (error) {
       console.error('Failed to clear database cache:', error);
     }
   }
 
+  /**
+   * Read the stored chunks of an interrupted download one at a time,
+   * so they are not all held in memory at once
+   * @param year Year of the database
+   * @param onChunk Called with each chunk in offset order; returning false stops reading
+   */
+  async readPartialDownload(
+    year: number,
+    onChunk: (chunk: PartialDownloadChunk) => boolean
+  ): Promise<void> {
+    await this.init();
+
+    if (!this.db) return;
+
+    try {
+      let cursor = await this.db
+        .transaction(this.downloadStoreName)
+        .store.openCursor(this.partialDownloadRange(year));
+      while (cursor) {
+        if (!onChunk(cursor.value)) break;
+        cursor = await cursor.continue();
+      }
+    } catch (error) {
+      console.error(`Failed to read partial download for year ${year}:`, error);
+    }
+  }
+
+  /**
+   * Store a chunk of a download in progress
+   * @param chunk Downloaded chunk
+   */
+  async addPartialDownloadChunk(chunk: PartialDownloadChunk): Promise<void> {
+    await this.init();
+
+    if (!this.db) return;
+
+    await this.db.put(this.downloadStoreName, chunk);
+  }
+
+  /**
+   * Delete the stored chunks of a download
+   * @param year Year of the database
+   */
+  async deletePartialDownload(year: number): Promise<void> {
+    await this.init();
+
+    if (!this.db) return;
+
+    try {
+      await this.db.delete(this.downloadStoreName, this.partialDownloadRange(year));
+    } catch (error) {
+      console.error(`Failed to delete partial download for year ${year}:`, error);
+    }
+  }
+
+  /**
+   * Key range of all download chunks of a year
+   * @param year Year of the database
+   * @returns Key range
+   */
+  private partialDownloadRange(year: number): IDBKeyRange {
+    return IDBKeyRange.bound([year, 0], [year, Infinity]);
+  }
+
   /**
    * Get all cached years
    * @returns Array of cached years
@@ -138,6 +374,47 @@ export class DatabaseCache {
     }
   }
 
+  /**
+   * Check whether a year is cached, without reading its data
+   * @param year Year of the database
+   * @param checksum Checksum of the currently published file, if known
+   * @returns true if a valid entry exists
+   */
+  async has(year: number, checksum?: string | null): Promise<boolean> {
+    await this.init();
+
+    if (!this.db) return false;
+
+    try {
+      const info: DatabaseCacheInfo | undefined = await this.db.get(this.infoStoreName, year);
+      return (
+        info !== undefined &&
+        info.version === config.cacheVersion &&
+        (!checksum || info.checksum === checksum)
+      );
+    } catch (error) {
+      console.error(`Failed to check cached database for year ${year}:`, error);
+      return false;
+    }
+  }
+
+  /**
+   * Get the metadata of all cached databases
+   * @returns Entry metadata
+   */
+  async getInfo(): Promise<DatabaseCacheInfo[]> {
+    await this.init();
+
+    if (!this.db) return [];
+
+    try {
+      return await this.db.getAll(this.infoStoreName);
+    } catch (error) {
+      console.error('Failed to get cache info:', error);
+      return [];
+    }
+  }
+
   /**
    * Get cache size in bytes
    * @returns Total size of cached databases
@@ -148,8 +425,8 @@ export class DatabaseCache {
     if (!this.db) return 0;
 
     try {
-      const entries: DatabaseCacheEntry[] = await this.db.getAll(this.storeName);
-      return entries.reduce((total, entry) => total + entry.data.byteLength, 0);
+      const entries: DatabaseCacheInfo[] = await this.db.getAll(this.infoStoreName);
+      return entries.reduce((total, entry) => total + entry.size, 0);
     } catch (error) {
       console.error('Failed to calculate cache size:', error);
       return 0;
@@ -0,0 +1,738 @@
+import initSqlJs from 'sql.js';
+import type { Database, SqlJsStatic } from 'sql.js';
+import { config } from '../utils/config';
+import { databaseCache } from './DatabaseCache';
+import { databaseLoader, type LoadStage, type ProgressCallback } from './DatabaseLoader';
+import { RuntimeInitError } from './DownloadError';
+import { buildExchangeIndex, hasExchangeIndex } from './ExchangeIndex';
+import { LazyDatabase } from './LazyDatabase';
+import { getDatabaseUrl, getManifestChecksum, manifestLoader } from './ManifestLoader';
+import {
+  buildAnalyzedIndex,
+  buildFullTextIndex,
+  detectFullTextModule,
+  getAnalyzedIndexKey,
+  getAnalyzedTable,
+  getFullTextIndex,
+  registerRankFunction,
+} from './FullTextIndex';
+import { TextAnalyzer, type AnalyzerOptions } from '../search/TextAnalyzer';
+import type {
+  FullTextModule,
+  ManifestYear,
+  MemoryStatus,
+  QueryableDatabase,
+} from '@/types/database';
+import type { CacheStats } from '@/types/worker';
+
+/**
+ * In-memory sql.js database behind the async query interface
+ */
+class SqlJsDatabase implements QueryableDatabase {
+  constructor(
+    readonly db: Database,
+    readonly fullText: FullTextModule | null,
+    readonly checksum: string | null // Manifest checksum of the source file
+  ) {}
+
+  async query(sql: string, params?: any[]): Promise<any[]> {
+    const results = this.db.exec(sql, params);
+
+    if (results.length === 0) {
+      return [];
+    }
+
+    // Convert to array of objects
+    const columns = results[0].columns;
+    const values = results[0].values;
+
+    return values.map((row: any[]) => {
+      const obj: any = {};
+      columns.forEach((col: string, index: number) => {
+        obj[col] = row[index];
+      });
+      return obj;
+    });
+  }
+
+  async memoryUsage(): Promise<number> {
+    const [pageCount, pageSize] = this.db.exec('PRAGMA page_count; PRAGMA page_size');
+    return Number(pageCount.values[0][0]) * Number(pageSize.values[0][0]);
+  }
+
+  close(): void {
+    this.db.close();
+  }
+}
+
+// A load in progress, shared by every request for the same year
+interface PendingLoad {
+  promise: Promise<QueryableDatabase>;
+  controller: AbortController; // Aborted once no request waits any more
+  waiters: number;
+  listeners: Set<ProgressCallback>;
+}
+
+// A database held in memory
+interface MemoryEntry {
+  db: QueryableDatabase;
+  size: number; // Measured bytes
+  refs: number; // Running queries and index builds; never closed while above 0
+  retired: boolean; // Removed from memory while in use, closed once released
+}
+
+/**
+ * Database Engine
+ * Owns the sql.js runtime and the in-memory databases inside the database worker
+ * Implements three-layer caching: memory -> IndexedDB -> network,
+ * or opens remote databases lazily when config.databaseLoadMode asks for it.
+ * Databases in memory are measured and the least recently used ones closed
+ * beyond config.memoryBudgetBytes, skipping those a query is still using.
+ */
+export class DatabaseEngine {
+  private SQL: SqlJsStatic | null = null;
+  private memoryCache: Map<number, MemoryEntry> = new Map();
+  private loads: Map<number, PendingLoad> = new Map();
+  private lruQueue: number[] = []; // Least Recently Used queue
+  private lastStatusKey = '';
+  // Databases whose indexes changed since they were cached, and when to cache them
+  private pendingCaches: Map<number, ReturnType<typeof setTimeout>> = new Map();
+
+  /**
+   * @param onMemoryChange Called with the memory status whenever it changes
+   */
+  constructor(private readonly onMemoryChange: (status: MemoryStatus) => void) {}
+
+  /**
+   * Initialize sql.js library
+   * @throws RuntimeInitError if WebAssembly is unavailable or the module fails to load
+   */
+  private async initSqlJs(): Promise<void> {
+    if (this.SQL) return;
+
+    if (typeof WebAssembly === 'undefined') {
+      throw new RuntimeInitError('This browser does not support WebAssembly');
+    }
+
+    try {
+      this.SQL = await initSqlJs({
+        locateFile: (file: string) => {
+          if (file.endsWith('.wasm')) {
+            return config.sqlJsWasmUrl;
+          }
+          return file;
+        },
+      });
+    } catch (error) {
+      throw new RuntimeInitError(
+        `Failed to initialize sql.js from ${config.sqlJsWasmUrl}: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`
+      );
+    }
+  }
+
+  /**
+   * Update LRU queue
+   * @param year Year that was accessed
+   */
+  private updateLRU(year: number): void {
+    // Remove year if it exists
+    const index = this.lruQueue.indexOf(year);
+    if (index > -1) {
+      this.lruQueue.splice(index, 1);
+    }
+
+    // Add to end (most recently used)
+    this.lruQueue.push(year);
+  }
+
+  /**
+   * Close least recently used databases until the memory budget is met.
+   * Databases in use are skipped, and the most recently used one always
+   * stays, even if it alone exceeds the budget.
+   */
+  private enforceBudget(): void {
+    let used = this.getMemoryStatus().used;
+
+    for (const year of this.lruQueue.slice(0, -1)) {
+      if (used <= config.memoryBudgetBytes) break;
+
+      const entry = this.memoryCache.get(year);
+      if (!entry || entry.refs > 0) continue;
+
+      console.log(`Closing database for year ${year} to stay within the memory budget`);
+      this.unload(year);
+      used -= entry.size;
+    }
+
+    this.notifyMemory();
+  }
+
+  /**
+   * Remove a database from memory, closing it once no query uses it
+   * @param year Year of the database
+   */
+  private unload(year: number): void {
+    const entry = this.memoryCache.get(year);
+    if (!entry) return;
+
+    this.memoryCache.delete(year);
+    // Exported now, while it is still open
+    if (this.pendingCaches.has(year)) {
+      void this.cacheIndexedDatabase(year, entry.db);
+    }
+    const lruIndex = this.lruQueue.indexOf(year);
+    if (lruIndex > -1) {
+      this.lruQueue.splice(lruIndex, 1);
+    }
+
+    if (entry.refs > 0) {
+      entry.retired = true;
+    } else {
+      entry.db.close();
+    }
+  }
+
+  /**
+   * Put a freshly opened database in memory
+   * @param year Year of the database
+   * @param db Database
+   */
+  private async addToMemory(year: number, db: QueryableDatabase): Promise<void> {
+    const size = await db.memoryUsage();
+    this.memoryCache.set(year, { db, size, refs: 0, retired: false });
+    this.updateLRU(year);
+    this.enforceBudget();
+  }
+
+  /**
+   * Load a database and pin it in memory until released
+   * @param year Year of the database
+   * @param signal Optional abort signal; stops waiting for the load (see loadDatabase)
+   * @returns Pinned memory entry
+   */
+  private async acquire(year: number, signal?: AbortSignal): Promise<MemoryEntry> {
+    // Other requests run while the database loads and may evict it before it is pinned
+    for (;;) {
+      await this.loadDatabase(year, undefined, signal);
+      const entry = this.memoryCache.get(year);
+      if (entry) {
+        entry.refs++;
+        this.notifyMemory();
+        return entry;
+      }
+    }
+  }
+
+  /**
+   * Unpin a database, measuring it again since indexes and fetched pages make it grow
+   * @param entry Memory entry returned by acquire
+   */
+  private async release(entry: MemoryEntry): Promise<void> {
+    if (!entry.retired) {
+      try {
+        entry.size = await entry.db.memoryUsage();
+      } catch (error) {
+        console.warn('Failed to measure database memory:', error);
+      }
+    }
+
+    entry.refs--;
+    if (entry.refs === 0 && entry.retired) {
+      entry.db.close();
+    }
+
+    this.enforceBudget();
+  }
+
+  /**
+   * Run an operation on a database that stays open until it is done
+   * @param year Year of the database
+   * @param operation Operation on the database
+   * @param signal Optional abort signal; stops waiting for the database to load
+   * @returns Result of the operation
+   */
+  private async withDatabase<T>(
+    year: number,
+    operation: (db: QueryableDatabase) => Promise<T>,
+    signal?: AbortSignal
+  ): Promise<T> {
+    const entry = await this.acquire(year, signal);
+    try {
+      return await operation(entry.db);
+    } finally {
+      await this.release(entry);
+    }
+  }
+
+  /**
+   * Notify the main thread about the memory status, if it changed
+   */
+  private notifyMemory(): void {
+    const status = this.getMemoryStatus();
+    const key = JSON.stringify(status);
+    if (key === this.lastStatusKey) return;
+
+    this.lastStatusKey = key;
+    this.onMemoryChange(status);
+  }
+
+  /**
+   * Get the memory used by the databases held in memory
+   * @returns Memory status
+   */
+  getMemoryStatus(): MemoryStatus {
+    const databases = this.lruQueue.flatMap((year) => {
+      const entry = this.memoryCache.get(year);
+      return entry ? [{ year, size: entry.size, inUse: entry.refs > 0 }] : [];
+    });
+
+    return {
+      budget: config.memoryBudgetBytes,
+      used: databases.reduce((sum, database) => sum + database.size, 0),
+      databases,
+    };
+  }
+
+  /**
+   * Load a database by year
+   * @param year Year of the database
+   * @param onProgress Optional progress callback
+   * @param signal Optional abort signal; stops waiting for the load. A load
+   *   shared with other requests is only cancelled once none of them waits.
+   * @returns Database instance
+   */
+  async loadDatabase(
+    year: number,
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+  ): Promise<QueryableDatabase> {
+    // Check memory cache first
+    const cached = this.memoryCache.get(year);
+    if (cached) {
+      this.updateLRU(year);
+      return cached.db;
+    }
+
+    if (signal?.aborted) {
+      throw new DOMException('Load cancelled', 'AbortError');
+    }
+
+    // Join the load in progress, or start one
+    const shared = this.loads.get(year) ?? this.startLoad(year, onProgress);
+    shared.waiters++;
+    if (onProgress) shared.listeners.add(onProgress);
+
+    return new Promise<QueryableDatabase>((resolve, reject) => {
+      let waiting = true;
+      const leave = () => {
+        if (!waiting) return false;
+        waiting = false;
+        signal?.removeEventListener('abort', onAbort);
+        if (onProgress) shared.listeners.delete(onProgress);
+        shared.waiters--;
+        return true;
+      };
+      const onAbort = () => {
+        if (!leave()) return;
+        if (shared.waiters === 0) {
+          // Later requests start over instead of joining a cancelled load
+          if (this.loads.get(year) === shared) this.loads.delete(year);
+          shared.controller.abort();
+        }
+        reject(new DOMException('Load cancelled', 'AbortError'));
+      };
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      shared.promise.then(
+        (db) => {
+          if (leave()) resolve(db);
+        },
+        (error) => {
+          if (leave()) reject(error);
+        }
+      );
+    });
+  }
+
+  /**
+   * Start loading a database, reporting progress to every request waiting for it
+   * @param year Year of the database
+   * @param onProgress Progress callback of the request starting it, from the first stage on
+   * @returns Shared load
+   */
+  private startLoad(year: number, onProgress?: ProgressCallback): PendingLoad {
+    const controller = new AbortController();
+    const listeners = new Set<ProgressCallback>(onProgress ? [onProgress] : []);
+    const report: ProgressCallback = (progress) => {
+      for (const listener of listeners) listener(progress);
+    };
+
+    const promise = config.databaseLoadMode === 'download'
+      ? this._loadDatabaseInternal(year, report, controller.signal)
+      : this._openLazyDatabase(year, report);
+    const load: PendingLoad = { promise, controller, waiters: 0, listeners };
+    this.loads.set(year, load);
+
+    const done = () => {
+      if (this.loads.get(year) === load) this.loads.delete(year);
+    };
+    promise.then(done, done);
+
+    return load;
+  }
+
+  /**
+   * Internal database loading logic
+   * @param year Year of the database
+   * @param onProgress Optional progress callback
+   * @param signal Optional abort signal
+   * @returns Database instance
+   */
+  private async _loadDatabaseInternal(
+    year: number,
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+  ): Promise<QueryableDatabase> {
+    const report = (stage: LoadStage) =>
+      onProgress?.({ stage, loaded: 0, total: 0, percentage: 0 });
+    const checkCancelled = () => {
+      if (signal?.aborted) throw new DOMException('Load cancelled', 'AbortError');
+    };
+
+    if (!this.SQL) {
+      report('wasm');
+      await this.initSqlJs();
+    }
+
+    if (!this.SQL) {
+      throw new RuntimeInitError('Failed to initialize sql.js');
+    }
+    checkCancelled();
+
+    let data: Uint8Array | null = null;
+
+    // The manifest tells which file is currently published for the year
+    report('cache');
+    const manifestEntry = await manifestLoader.getYear(year);
+    const checksum = manifestEntry ? getManifestChecksum(manifestEntry) : null;
+
+    // Try IndexedDB cache (entries of an older file are dropped)
+    data = await databaseCache.get(year, checksum);
+    const fromCache = data !== null;
+
+    if (data) {
+      console.log(`Loaded database for year ${year} from IndexedDB cache`);
+    } else {
+      // Fetch from network
+      checkCancelled();
+      report('download');
+      console.log(`Fetching database for year ${year} from network`);
+      data = await this.fetchDatabase(year, manifestEntry, onProgress, signal);
+    }
+
+    // Initialize database
+    report('open');
+    const sqlDb = new this.SQL.Database(data);
+
+    // Build the full-text index once; the indexed file is what gets cached
+    let fullText = getFullTextIndex(sqlDb);
+    let indexBuilt = false;
+    if (!fullText) {
+      fullText = detectFullTextModule(sqlDb);
+      if (fullText) {
+        report('index');
+        console.log(`Building ${fullText} full-text index for year ${year}`);
+        buildFullTextIndex(sqlDb, fullText);
+        indexBuilt = true;
+      }
+    }
+
+    // Likewise the exchange index, which makes exchange navigation a lookup
+    if (!hasExchangeIndex(sqlDb)) {
+      report('index');
+      console.log(`Building exchange index for year ${year}`);
+      buildExchangeIndex(sqlDb);
+      indexBuilt = true;
+    }
+
+    const db = new SqlJsDatabase(sqlDb, fullText, checksum);
+
+    if (indexBuilt) {
+      // Both indexes are in one export
+      await this.cacheIndexedDatabase(year, db);
+    } else {
+      if (fullText === 'fts4') {
+        registerRankFunction(sqlDb);
+      }
+      if (!fromCache) {
+        // Cache in IndexedDB for next time
+        try {
+          await databaseCache.set(year, data, checksum);
+          console.log(`Cached database for year ${year} in IndexedDB`);
+        } catch (error) {
+          console.warn(`Failed to cache database for year ${year}:`, error);
+          // Continue anyway
+        }
+      }
+    }
+
+    if (signal?.aborted) {
+      // Nobody waits for it any more, and a new load of the year may have started
+      db.close();
+      throw new DOMException('Load cancelled', 'AbortError');
+    }
+
+    // Store in memory cache
+    await this.addToMemory(year, db);
+
+    return db;
+  }
+
+  /**
+   * Fetch a database file from the network, checked against its manifest entry
+   * @param year Year of the database
+   * @param manifestEntry Manifest entry of the year, if known
+   * @param onProgress Optional progress callback
+   * @param signal Optional abort signal
+   * @returns Decompressed database
+   */
+  private fetchDatabase(
+    year: number,
+    manifestEntry: ManifestYear | null,
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+  ): Promise<Uint8Array> {
+    return databaseLoader.fetchDatabase(year, {
+      url: getDatabaseUrl(year, manifestEntry),
+      onProgress,
+      // The digest is of the published (gzipped) file, not of a local uncompressed copy
+      sha256: config.localDatabases ? undefined : manifestEntry?.sha256,
+      size: manifestEntry?.uncompressedSize,
+      signal,
+    });
+  }
+
+  /**
+   * Store a database with the indexes built in it in IndexedDB. The export
+   * holds a second copy of the database in memory while it is written, so
+   * it is done once for all the indexes built together.
+   * @param year Year of the database
+   * @param db Database (only in-memory sql.js databases are cached)
+   */
+  private async cacheIndexedDatabase(year: number, db: QueryableDatabase): Promise<void> {
+    clearTimeout(this.pendingCaches.get(year));
+    this.pendingCaches.delete(year);
+    if (!(db instanceof SqlJsDatabase)) return;
+
+    const data = db.db.export();
+    // sql.js drops custom functions in export()
+    if (db.fullText === 'fts4') {
+      registerRankFunction(db.db);
+    }
+
+    try {
+      await databaseCache.set(year, data, db.checksum);
+      console.log(`Cached database for year ${year} in IndexedDB`);
+    } catch (error) {
+      console.warn(`Failed to cache database for year ${year}:`, error);
+    }
+  }
+
+  /**
+   * Cache a database once no further index is built in it for
+   * config.indexCacheDelayMs (or when it leaves memory, if sooner)
+   * @param year Year of the database
+   */
+  private scheduleCache(year: number): void {
+    clearTimeout(this.pendingCaches.get(year));
+    this.pendingCaches.set(
+      year,
+      setTimeout(() => {
+        const entry = this.memoryCache.get(year);
+        if (entry) void this.cacheIndexedDatabase(year, entry.db);
+      }, config.indexCacheDelayMs)
+    );
+  }
+
+  /**
+   * Forget an index cache still waiting, e.g. because the cached copy is dropped
+   * @param year Year of the database
+   */
+  private cancelCache(year: number): void {
+    clearTimeout(this.pendingCaches.get(year));
+    this.pendingCaches.delete(year);
+  }
+
+  /**
+   * Open a remote database whose pages are fetched on demand
+   * (no download up front and no IndexedDB copy)
+   * @param year Year of the database
+   * @param onProgress Optional progress callback
+   * @returns Database instance
+   */
+  private async _openLazyDatabase(
+    year: number,
+    onProgress?: ProgressCallback
+  ): Promise<QueryableDatabase> {
+    onProgress?.({ stage: 'open', loaded: 0, total: 0, percentage: 0 });
+    console.log(`Opening database for year ${year} with HTTP Range requests`);
+    const db = await LazyDatabase.open(year);
+    await this.addToMemory(year, db);
+
+    return db;
+  }
+
+  /**
+   * Make sure a database has an index over content analyzed with the given
+   * options, (re)building it if not; the database is re-cached once the
+   * indexes a search needs are all built (see scheduleCache)
+   * @param year Year of the database
+   * @param options Analyzer options
+   * @returns true if the index is available (not for lazily loaded or unindexed databases)
+   */
+  async ensureAnalyzedIndex(year: number, options: AnalyzerOptions): Promise<boolean> {
+    return this.withDatabase(year, async (db) => {
+      if (!(db instanceof SqlJsDatabase) || !db.fullText) return false;
+
+      const analyzer = new TextAnalyzer(options);
+      if (getAnalyzedIndexKey(db.db, getAnalyzedTable(options)) === analyzer.key) return true;
+
+      console.log(`Building analyzed index ${getAnalyzedTable(options)} for year ${year}`);
+      buildAnalyzedIndex(db.db, db.fullText, analyzer);
+      this.scheduleCache(year);
+
+      return true;
+    });
+  }
+
+  /**
+   * Execute a query on a database
+   * @param year Year of the database
+   * @param sql SQL query string
+   * @param params Optional query parameters
+   * @param signal Optional abort signal; cancels loading the database for the
+   *   query (unless other requests wait for it too)
+   * @param beforeExecute Optional hook called once the database is ready;
+   *   returning false skips execution (e.g. the query was cancelled meanwhile)
+   * @returns Query results, or null if execution was skipped
+   */
+  async executeQuery(
+    year: number,
+    sql: string,
+    params?: any[],
+    signal?: AbortSignal,
+    beforeExecute?: () => boolean
+  ): Promise<any[] | null> {
+    return this.withDatabase(year, async (db) => {
+      if (beforeExecute && !beforeExecute()) {
+        return null;
+      }
+
+      try {
+        return await db.query(sql, params);
+      } catch (error) {
+        throw new Error(
+          `Query execution failed for year ${year}: ${
+            error instanceof Error ? error.message : 'Unknown error'
+          }`
+        );
+      }
+    }, signal);
+  }
+
+  /**
+   * Download a database into the IndexedDB cache for offline use, without
+   * opening it (its full-text index is built when it is first opened)
+   * @param year Year of the database
+   * @param onProgress Optional progress callback
+   * @param signal Optional abort signal
+   * @returns true if it was downloaded, false if it was cached already
+   */
+  async downloadDatabase(
+    year: number,
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+  ): Promise<boolean> {
+    const manifestEntry = await manifestLoader.getYear(year);
+    const checksum = manifestEntry ? getManifestChecksum(manifestEntry) : null;
+
+    if (await databaseCache.has(year, checksum)) {
+      return false;
+    }
+
+    console.log(`Downloading database for year ${year} for offline use`);
+    const data = await this.fetchDatabase(year, manifestEntry, onProgress, signal);
+    await databaseCache.set(year, data, checksum);
+    return true;
+  }
+
+  /**
+   * Drop cached years whose published file changed since they were downloaded,
+   * so they are downloaded again the next time they are opened
+   * @returns Years that were dropped
+   */
+  async invalidateChangedYears(): Promise<number[]> {
+    const manifest = await manifestLoader.load();
+    if (!manifest) return [];
+
+    const published = new Map(
+      manifest.years.map((entry) => [entry.year, getManifestChecksum(entry)])
+    );
+    const changed = (await databaseCache.getInfo())
+      .filter((info) => {
+        const checksum = published.get(info.year);
+        return checksum && info.checksum !== checksum;
+      })
+      .map((info) => info.year);
+
+    for (const year of changed) {
+      console.log(`Database for year ${year} was updated, dropping cached copy`);
+      await this.clearCache(year);
+    }
+
+    return changed;
+  }
+
+  /**
+   * Clear cache
+   * @param year Optional specific year to clear, or all if not provided
+   */
+  async clearCache(year?: number): Promise<void> {
+    if (year !== undefined) {
+      // Clear specific year (closed once running queries are done)
+      this.cancelCache(year);
+      this.unload(year);
+      await databaseCache.delete(year);
+      await databaseCache.deletePartialDownload(year);
+    } else {
+      // Clear all
+      for (const loadedYear of Array.from(this.memoryCache.keys())) {
+        this.cancelCache(loadedYear);
+        this.unload(loadedYear);
+      }
+
+      await databaseCache.clear();
+    }
+
+    this.notifyMemory();
+  }
+
+  /**
+   * Get cache statistics
+   * @returns Cache stats
+   */
+  async getCacheStats(): Promise<CacheStats> {
+    const cachedYears = await databaseCache.getCachedYears();
+    const cacheSize = await databaseCache.getCacheSize();
+    const entries = await databaseCache.getInfo();
+
+    return {
+      memoryCount: this.memoryCache.size,
+      cachedYears,
+      cacheSize,
+      entries,
+    };
+  }
+}
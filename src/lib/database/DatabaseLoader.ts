@@ -1,7 +1,21 @@
 import { config } from '../utils/config';
-import { decompressGzip, isGzipped } from '../utils/compression';
+import { GunzipStream, readGzipSize } from '../utils/compression';
+import { Sha256 } from '../utils/sha256';
+import { databaseCache } from './DatabaseCache';
+import {
+  ChecksumError,
+  DecompressionError,
+  DownloadError,
+  HttpError,
+  NetworkError,
+  isAbortError,
+} from './DownloadError';
+
+// Stage of loading a database, in order
+export type LoadStage = 'wasm' | 'cache' | 'download' | 'decompress' | 'open' | 'index';
 
 export interface LoadProgress {
+  stage: LoadStage;
   loaded: number;
   total: number;
   percentage: number;
@@ -9,81 +23,435 @@ export interface LoadProgress {
 
 export type ProgressCallback = (progress: LoadProgress) => void;
 
+export interface FetchOptions {
+  url?: string; // File to download, config.databaseUrl(year) by default
+  onProgress?: ProgressCallback;
+  sha256?: string; // Expected hex SHA-256 digest of the file
+  size?: number; // Decompressed size, if the manifest has it
+  signal?: AbortSignal; // Cancels the download, keeping what arrived for later
+}
+
+// A download in progress. Bytes are decompressed and hashed as they arrive;
+// only those not yet stored in IndexedDB are kept.
+interface DownloadState {
+  pending: Uint8Array[]; // Received chunks not yet stored
+  loaded: number; // Bytes received, including resumed ones
+  saved: number; // Bytes handed on for storage in IndexedDB
+  total: number; // Bytes of the whole file, 0 if unknown
+  validator: string; // ETag or Last-Modified of the file
+  persist: boolean; // False once storing failed, as later chunks would leave a gap
+  output: GunzipStream;
+  hash: Sha256;
+  expectedSize: number; // Decompressed size, 0 if unknown
+}
+
+/**
+ * Wait, unless cancelled first
+ * @param ms Milliseconds to wait
+ * @param signal Optional abort signal
+ */
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve, reject) => {
+    if (signal?.aborted) {
+      reject(new DOMException('Download cancelled', 'AbortError'));
+      return;
+    }
+
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(new DOMException('Download cancelled', 'AbortError'));
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+}
+
+/**
+ * Concatenate chunks into one array
+ * @param chunks Chunks
+ * @param length Total bytes of the chunks
+ * @returns Concatenated data
+ */
+function concatChunks(chunks: Uint8Array[], length: number): Uint8Array {
+  const data = new Uint8Array(length);
+  let position = 0;
+  for (const chunk of chunks) {
+    data.set(chunk, position);
+    position += chunk.length;
+  }
+  return data;
+}
+
 /**
  * Database Loader
- * Handles fetching and decompressing database files
+ * Handles fetching and decompressing database files.
+ * Files are decompressed and hashed while they stream in, so the compressed
+ * file is never held whole. Transient failures are retried with exponential
+ * backoff, and what already arrived is kept in IndexedDB so an interrupted
+ * download resumes with a Range request, in the same session or a later one.
  */
 export class DatabaseLoader {
   /**
    * Fetch a database file from the network
    * @param year Year of the database to fetch
-   * @param onProgress Optional progress callback
+   * @param options Optional URL, progress callback, expected checksum and size, and abort signal
    * @returns Decompressed database as Uint8Array
+   * @throws NetworkError, HttpError, DecompressionError or ChecksumError (see DownloadError),
+   *   or an AbortError DOMException when cancelled
    */
-  async fetchDatabase(
-    year: number,
-    onProgress?: ProgressCallback
-  ): Promise<Uint8Array> {
-    const url = config.databaseUrl(year);
+  async fetchDatabase(year: number, options: FetchOptions = {}): Promise<Uint8Array> {
+    const { onProgress, sha256, signal } = options;
+    const url = options.url ?? config.databaseUrl(year);
 
     try {
-      const response = await fetch(url);
+      const expectedSize = options.size ?? (await this.fetchGzipSize(url, signal));
+      const state = await this.restoreDownload(year, expectedSize, onProgress);
+      let refetched = false; // Downloaded again after a checksum mismatch
+
+      for (let attempt = 0; ; attempt++) {
+        try {
+          await this.download(year, url, state, options);
+
+          // Verify against the manifest before trusting the file
+          if (sha256 && state.hash.digestHex() !== sha256.toLowerCase()) {
+            throw new ChecksumError(
+              `Failed to load database for year ${year}: checksum mismatch, the download is incomplete or corrupted`
+            );
+          }
+          break;
+        } catch (error) {
+          const retryable = error instanceof DownloadError && error.retryable;
+          // A second mismatch is no transfer error: the manifest does not describe the file
+          const mismatchAgain = error instanceof ChecksumError && refetched;
+          if (!retryable || mismatchAgain || attempt >= config.downloadRetries) {
+            throw error;
+          }
+          if (error instanceof ChecksumError) {
+            // Every stored byte may be the corrupt one, so download the whole file again
+            await this.resetDownload(year, state);
+            refetched = true;
+          }
+
+          const delay = config.downloadRetryDelay * 2 ** attempt;
+          console.warn(`Download for year ${year} failed, retrying in ${delay} ms:`, error);
+          await sleep(delay, signal);
+        }
+      }
+
+      // A complete (or corrupt) file must not be resumed
+      await databaseCache.deletePartialDownload(year);
+
+      // Most of the decompression happened while streaming; this finishes it
+      onProgress?.({ stage: 'decompress', loaded: 0, total: 0, percentage: 0 });
+
+      const data = this.decompress(year, () => state.output.finish());
+      onProgress?.({ stage: 'decompress', loaded: data.length, total: data.length, percentage: 100 });
+      return data;
+    } catch (error) {
+      if (error instanceof DecompressionError || error instanceof ChecksumError) {
+        await databaseCache.deletePartialDownload(year);
+      }
+      if (isAbortError(error) || error instanceof DownloadError) {
+        throw error;
+      }
+      throw new Error(
+        `Failed to load database for year ${year}: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`
+      );
+    }
+  }
 
-      if (!response.ok) {
-        throw new Error(`Failed to fetch database: ${response.statusText}`);
+  /**
+   * Download the rest of a file, continuing after the bytes already received
+   * @param year Year of the database
+   * @param url File to download
+   * @param state Download state, updated as bytes arrive
+   * @param options Progress callback and abort signal
+   */
+  private async download(
+    year: number,
+    url: string,
+    state: DownloadState,
+    options: FetchOptions
+  ): Promise<void> {
+    const { onProgress, signal } = options;
+    const failure = (reason: string) => `Failed to load database for year ${year}: ${reason}`;
+
+    const headers: Record<string, string> = {};
+    if (state.loaded > 0) {
+      headers['Range'] = `bytes=${state.loaded}-`;
+      // Only get the rest if the file is unchanged, otherwise the whole new file
+      if (state.validator) {
+        headers['If-Range'] = state.validator;
       }
+    }
 
+    let response: Response;
+    try {
+      response = await fetch(url, { headers, signal });
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      throw new NetworkError(failure(error instanceof Error ? error.message : 'Network error'));
+    }
+
+    // The stored bytes do not fit the file any more
+    if (response.status === 416) {
+      await this.resetDownload(year, state);
+      return this.download(year, url, state, options);
+    }
+
+    if (!response.ok) {
+      throw new HttpError(response.status, failure(`${response.status} ${response.statusText}`));
+    }
+
+    if (response.status === 206) {
+      // Content-Range: bytes <start>-<end>/<total>
+      const range = /^bytes (\d+)-\d+\/(\d+|\*)$/.exec(response.headers.get('content-range') ?? '');
+      if (!range || Number(range[1]) !== state.loaded) {
+        await response.body?.cancel();
+        await this.resetDownload(year, state);
+        return this.download(year, url, state, options);
+      }
+      if (range[2] !== '*') {
+        state.total = Number(range[2]);
+      }
+      console.log(`Resuming download for year ${year} at ${state.loaded} bytes`);
+    } else {
+      // Whole file: the server ignored the range, or the file changed
+      if (state.loaded > 0) {
+        await this.resetDownload(year, state);
+      }
       const contentLength = response.headers.get('content-length');
-      const total = contentLength ? parseInt(contentLength, 10) : 0;
+      state.total = contentLength ? parseInt(contentLength, 10) : 0;
 
-      if (!response.body) {
-        throw new Error('Response body is null');
+      // An uncompressed file is as large as the database
+      if (!url.endsWith('.gz')) {
+        state.output.reserve(state.total);
       }
+    }
 
-      // Stream the response and track progress
-      const reader = response.body.getReader();
-      const chunks: Uint8Array[] = [];
-      let loaded = 0;
+    // Weak ETags cannot be used with If-Range
+    const etag = response.headers.get('etag');
+    state.validator =
+      (etag && !etag.startsWith('W/') ? etag : response.headers.get('last-modified')) ?? '';
 
+    if (!response.body) {
+      throw new NetworkError(failure('Response body is null'));
+    }
+
+    // Stream the response, decompressing and tracking progress
+    const reader = response.body.getReader();
+    try {
       while (true) {
-        const { done, value } = await reader.read();
+        let result: ReadableStreamReadResult<Uint8Array>;
+        try {
+          result = await reader.read();
+        } catch (error) {
+          if (isAbortError(error)) throw error;
+          throw new NetworkError(failure(error instanceof Error ? error.message : 'Connection lost'));
+        }
+
+        if (result.done) break;
 
-        if (done) break;
+        this.consume(year, state, result.value);
+        state.pending.push(result.value);
 
-        chunks.push(value);
-        loaded += value.length;
+        if (state.loaded - state.saved >= config.downloadChunkBytes) {
+          await this.saveChunks(year, state);
+        }
 
-        if (onProgress && total > 0) {
+        if (onProgress && state.total > 0) {
           onProgress({
-            loaded,
-            total,
-            percentage: Math.round((loaded / total) * 100),
+            stage: 'download',
+            loaded: state.loaded,
+            total: state.total,
+            percentage: Math.round((state.loaded / state.total) * 100),
           });
         }
       }
 
-      // Concatenate all chunks
-      const data = new Uint8Array(loaded);
-      let position = 0;
-      for (const chunk of chunks) {
-        data.set(chunk, position);
-        position += chunk.length;
+      if (state.total > 0 && state.loaded < state.total) {
+        throw new NetworkError(failure('Connection closed before the download was complete'));
       }
-
-      // Decompress if gzipped
-      if (isGzipped(data)) {
-        return decompressGzip(data);
+    } catch (error) {
+      // Keep what arrived, so the next attempt continues from there
+      if (!(error instanceof DecompressionError)) {
+        await this.saveChunks(year, state);
       }
+      throw error;
+    }
+  }
 
-      return data;
+  /**
+   * Hash and decompress the next bytes of the file
+   * @param year Year of the database
+   * @param state Download state
+   * @param chunk Next bytes
+   */
+  private consume(year: number, state: DownloadState, chunk: Uint8Array): void {
+    this.decompress(year, () => state.output.push(chunk));
+    state.hash.update(chunk);
+    state.loaded += chunk.length;
+  }
+
+  /**
+   * Run a decompression step, reporting failures as DecompressionError
+   * @param year Year of the database
+   * @param step Decompression step
+   * @returns Result of the step
+   */
+  private decompress<T>(year: number, step: () => T): T {
+    try {
+      return step();
     } catch (error) {
-      throw new Error(
+      throw new DecompressionError(
         `Failed to load database for year ${year}: ${
           error instanceof Error ? error.message : 'Unknown error'
         }`
       );
     }
   }
+
+  /**
+   * Read the decompressed size from the gzip footer, to preallocate the database
+   * @param url File to download
+   * @param signal Optional abort signal
+   * @returns Size in bytes, or 0 if unknown (uncompressed file, or no Range support)
+   */
+  private async fetchGzipSize(url: string, signal?: AbortSignal): Promise<number> {
+    if (!url.endsWith('.gz')) return 0;
+
+    try {
+      const response = await fetch(url, { headers: { Range: 'bytes=-4' }, signal });
+      if (response.status !== 206) {
+        await response.body?.cancel();
+        return 0;
+      }
+      const footer = new Uint8Array(await response.arrayBuffer());
+      return footer.length === 4 ? readGzipSize(footer) : 0;
+    } catch (error) {
+      if (isAbortError(error)) throw error;
+      return 0; // Only an optimization
+    }
+  }
+
+  /**
+   * Create the state of a download from the start
+   * @param expectedSize Decompressed size, 0 if unknown
+   * @returns Download state
+   */
+  private createState(expectedSize: number): DownloadState {
+    return {
+      pending: [],
+      loaded: 0,
+      saved: 0,
+      total: 0,
+      validator: '',
+      persist: true,
+      output: new GunzipStream(expectedSize),
+      hash: new Sha256(),
+      expectedSize,
+    };
+  }
+
+  /**
+   * Continue from the stored start of an interrupted download,
+   * decompressing it chunk by chunk (reported as download progress)
+   * @param year Year of the database
+   * @param expectedSize Decompressed size, 0 if unknown
+   * @param onProgress Optional progress callback
+   * @returns Download state to continue from
+   */
+  private async restoreDownload(
+    year: number,
+    expectedSize: number,
+    onProgress?: ProgressCallback
+  ): Promise<DownloadState> {
+    const state = this.createState(expectedSize);
+    let consistent = true;
+
+    await databaseCache.readPartialDownload(year, (chunk) => {
+      // Only a gapless start of one version of the file can be resumed
+      consistent =
+        chunk.offset === state.loaded && (!state.validator || chunk.validator === state.validator);
+      if (!consistent) return false;
+
+      try {
+        this.consume(year, state, chunk.data);
+      } catch {
+        consistent = false;
+        return false;
+      }
+      state.total = chunk.total;
+      state.validator = chunk.validator;
+
+      // Stored bytes count as downloaded
+      onProgress?.({
+        stage: 'download',
+        loaded: state.loaded,
+        total: state.total,
+        percentage: state.total > 0 ? Math.round((state.loaded / state.total) * 100) : 0,
+      });
+      return true;
+    });
+
+    if (!consistent) {
+      console.warn(`Discarding unusable partial download for year ${year}`);
+      await this.resetDownload(year, state);
+      return state;
+    }
+
+    state.saved = state.loaded;
+    if (state.loaded > 0) {
+      console.log(`Found ${state.loaded} bytes of an interrupted download for year ${year}`);
+    }
+
+    return state;
+  }
+
+  /**
+   * Store the chunks received since the last save as one record.
+   * Only files with a validator are stored, since a later session must be
+   * able to tell whether the file is still the same.
+   * @param year Year of the database
+   * @param state Download state
+   */
+  private async saveChunks(year: number, state: DownloadState): Promise<void> {
+    if (state.pending.length === 0) return;
+
+    const pending = state.pending;
+    const offset = state.saved;
+    state.pending = [];
+    state.saved = state.loaded;
+    if (!state.validator || !state.persist) return;
+
+    try {
+      await databaseCache.addPartialDownloadChunk({
+        year,
+        offset,
+        data: concatChunks(pending, state.loaded - offset),
+        total: state.total,
+        validator: state.validator,
+      });
+    } catch (error) {
+      console.warn(`Failed to store partial download for year ${year}:`, error);
+      state.persist = false;
+    }
+  }
+
+  /**
+   * Forget the bytes received so far and start over
+   * @param year Year of the database
+   * @param state Download state to reset
+   */
+  private async resetDownload(year: number, state: DownloadState): Promise<void> {
+    await databaseCache.deletePartialDownload(year);
+    Object.assign(state, this.createState(state.expectedSize));
+  }
 }
 
 // Singleton instance
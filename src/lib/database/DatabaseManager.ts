@@ -1,19 +1,42 @@
-import type { Database, SqlJsStatic } from 'sql.js';
 import { config } from '../utils/config';
-import { databaseCache } from './DatabaseCache';
-import { databaseLoader, type ProgressCallback } from './DatabaseLoader';
+import type { ProgressCallback } from './DatabaseLoader';
+import { RuntimeInitError, restoreError } from './DownloadError';
+import type { AnalyzerOptions } from '../search/TextAnalyzer';
+import type { DatabaseInfo, MemoryStatus } from '@/types/database';
+import type { CacheStats, WorkerRequest, WorkerResponse } from '@/types/worker';
+
+// Request without its ID (distributes over the union so each variant keeps its fields)
+type RequestBody = WorkerRequest extends infer R
+  ? R extends { type: 'cancel' } ? never : Omit<R, 'id'>
+  : never;
+
+interface PendingRequest {
+  message: WorkerRequest;
+  resolve: (value: any) => void;
+  reject: (error: Error) => void;
+  onProgress?: ProgressCallback;
+}
 
 /**
  * Database Manager
- * Manages loading, caching, and querying SQLite databases
- * Implements three-layer caching: memory -> IndexedDB -> network
+ * Main-thread proxy for the database worker, which owns sql.js,
+ * the in-memory databases and the IndexedDB/network loading.
+ * All calls are asynchronous and message based.
  */
 export class DatabaseManager {
   private static instance: DatabaseManager | null = null;
-  private SQL: SqlJsStatic | null = null;
-  private memoryCache: Map<number, Database> = new Map();
-  private loadingPromises: Map<number, Promise<Database>> = new Map();
-  private lruQueue: number[] = []; // Least Recently Used queue
+  private worker: Worker | null = null;
+  private nextRequestId = 1;
+  private pending: Map<number, PendingRequest> = new Map();
+  private runningQueries: Set<number> = new Set();
+  private loadedYears: Set<number> = new Set();
+  private memoryStatus: MemoryStatus = {
+    budget: config.memoryBudgetBytes,
+    used: 0,
+    databases: [],
+  };
+  private memoryListeners: Set<(status: MemoryStatus) => void> = new Set();
+  private updateCheck: Promise<number[]> | null = null;
 
   private constructor() {}
 
@@ -28,63 +51,168 @@ export class DatabaseManager {
   }
 
   /**
-   * Initialize sql.js library
+   * Get the worker, spawning it on first use
    */
-  private async initSqlJs(): Promise<void> {
-    if (this.SQL) return;
-
-    // Load sql.js from CDN to avoid Vite bundling issues
-    // @ts-ignore - loaded from global scope
-    if (!window.initSqlJs) {
-      await new Promise((resolve, reject) => {
-        const script = document.createElement('script');
-        script.src = 'https://cdn.jsdelivr.net/npm/sql.js@1.10.2/dist/sql-wasm.js';
-        script.onload = resolve;
-        script.onerror = reject;
-        document.head.appendChild(script);
-      });
+  private getWorker(): Worker {
+    if (!this.worker) {
+      this.worker = new Worker(
+        new URL('./database.worker.ts', import.meta.url),
+        { type: 'module' }
+      );
+      this.worker.onmessage = (event: MessageEvent<WorkerResponse>) =>
+        this.handleMessage(event.data);
+      this.worker.onerror = (event) => this.handleWorkerError(event);
+    }
+    return this.worker;
+  }
+
+  /**
+   * Fail every pending request when the worker itself cannot run
+   * (e.g. its script failed to load), since none would ever be answered
+   * @param event Worker error event
+   */
+  private handleWorkerError(event: ErrorEvent): void {
+    event.preventDefault();
+    const error = new RuntimeInitError(
+      `The database worker failed to start${event.message ? `: ${event.message}` : ''}`
+    );
+
+    this.worker?.terminate();
+    this.worker = null;
+    this.setMemoryStatus({ ...this.memoryStatus, used: 0, databases: [] });
+
+    const pending = Array.from(this.pending.values());
+    this.pending.clear();
+    this.runningQueries.clear();
+    for (const request of pending) {
+      request.reject(error);
+    }
+  }
+
+  /**
+   * Handle a message from the worker
+   * @param message Worker response
+   */
+  private handleMessage(message: WorkerResponse): void {
+    if (message.type === 'memory') {
+      this.setMemoryStatus(message.status);
+      return;
     }
 
-    // @ts-ignore - initSqlJs is loaded from CDN
-    const initSqlJs = window.initSqlJs;
+    const request = this.pending.get(message.id);
+    if (!request) return; // Cancelled on this side already
+
+    switch (message.type) {
+      case 'started':
+        this.runningQueries.add(message.id);
+        break;
 
-    this.SQL = await initSqlJs({
-      locateFile: (file: string) => {
-        if (file.endsWith('.wasm')) {
-          return 'https://cdn.jsdelivr.net/npm/sql.js@1.10.2/dist/sql-wasm.wasm';
-        }
-        return file;
-      },
+      case 'progress':
+        request.onProgress?.(message.progress);
+        break;
+
+      case 'result':
+        this.settle(message.id);
+        request.resolve(message.value);
+        break;
+
+      case 'error':
+        this.settle(message.id);
+        request.reject(restoreError(message.name, message.message, message.status));
+        break;
+    }
+  }
+
+  /**
+   * Record the worker's memory status and notify listeners
+   * @param status Memory status
+   */
+  private setMemoryStatus(status: MemoryStatus): void {
+    this.memoryStatus = status;
+    this.loadedYears = new Set(status.databases.map((database) => database.year));
+    for (const listener of this.memoryListeners) {
+      listener(status);
+    }
+  }
+
+  /**
+   * Forget a request once it has been answered or cancelled
+   * @param id Request ID
+   */
+  private settle(id: number): void {
+    this.pending.delete(id);
+    this.runningQueries.delete(id);
+  }
+
+  /**
+   * Send a request to the worker
+   * @param body Request without ID
+   * @param options Optional progress callback and abort signal
+   * @returns Value the worker answers with
+   */
+  private request<T>(
+    body: RequestBody,
+    options: { onProgress?: ProgressCallback; signal?: AbortSignal } = {}
+  ): Promise<T> {
+    const { onProgress, signal } = options;
+
+    if (signal?.aborted) {
+      return Promise.reject(new DOMException('Query cancelled', 'AbortError'));
+    }
+
+    const id = this.nextRequestId++;
+    const message = { ...body, id } as WorkerRequest;
+
+    return new Promise<T>((resolve, reject) => {
+      const onAbort = () => {
+        this.cancel(id);
+        reject(new DOMException('Query cancelled', 'AbortError'));
+      };
+
+      this.pending.set(id, {
+        message,
+        resolve: (value) => {
+          signal?.removeEventListener('abort', onAbort);
+          resolve(value);
+        },
+        reject: (error) => {
+          signal?.removeEventListener('abort', onAbort);
+          reject(error);
+        },
+        onProgress,
+      });
+
+      signal?.addEventListener('abort', onAbort, { once: true });
+      this.getWorker().postMessage(message);
     });
   }
 
   /**
-   * Update LRU queue
-   * @param year Year that was accessed
+   * Cancel a pending request.
+   * A query that has not started yet is skipped by the worker; one that is
+   * already executing cannot be interrupted, so the worker is replaced and
+   * every other pending request is resent to the new one.
+   * @param id Request ID
    */
-  private updateLRU(year: number): void {
-    // Remove year if it exists
-    const index = this.lruQueue.indexOf(year);
-    if (index > -1) {
-      this.lruQueue.splice(index, 1);
+  private cancel(id: number): void {
+    if (!this.pending.has(id)) return;
+
+    const running = this.runningQueries.has(id);
+    this.settle(id);
+
+    if (!running) {
+      this.worker?.postMessage({ type: 'cancel', id } satisfies WorkerRequest);
+      return;
     }
 
-    // Add to end (most recently used)
-    this.lruQueue.push(year);
-
-    // Evict if over limit
-    while (
-      this.lruQueue.length > config.maxCachedDatabases &&
-      this.lruQueue.length > 0
-    ) {
-      const yearToEvict = this.lruQueue.shift();
-      if (yearToEvict !== undefined) {
-        const db = this.memoryCache.get(yearToEvict);
-        if (db) {
-          db.close();
-          this.memoryCache.delete(yearToEvict);
-        }
-      }
+    this.worker?.terminate();
+    this.worker = null;
+    this.setMemoryStatus({ ...this.memoryStatus, used: 0, databases: [] });
+    this.runningQueries.clear();
+
+    const worker = this.getWorker();
+    for (const request of this.pending.values()) {
+      worker.postMessage(request.message);
     }
   }
 
@@ -92,85 +220,36 @@ export class DatabaseManager {
    * Load a database by year
    * @param year Year of the database
    * @param onProgress Optional progress callback
-   * @returns Database instance
+   * @param signal Optional abort signal to stop waiting; the worker shares
+   *   one download per year and cancels it once no caller waits for it
+   * @returns Information about the loaded database
    */
   async loadDatabase(
     year: number,
-    onProgress?: ProgressCallback
-  ): Promise<Database> {
-    // Check memory cache first
-    const cached = this.memoryCache.get(year);
-    if (cached) {
-      this.updateLRU(year);
-      return cached;
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+  ): Promise<DatabaseInfo> {
+    if (this.loadedYears.has(year)) {
+      // Still tell the worker so its LRU sees the access
+      return this.request<DatabaseInfo>({ type: 'load', year });
     }
 
-    // Check if already loading
-    const loadingPromise = this.loadingPromises.get(year);
-    if (loadingPromise) {
-      return loadingPromise;
-    }
-
-    // Start loading
-    const promise = this._loadDatabaseInternal(year, onProgress);
-    this.loadingPromises.set(year, promise);
-
-    try {
-      const db = await promise;
-      this.loadingPromises.delete(year);
-      return db;
-    } catch (error) {
-      this.loadingPromises.delete(year);
-      throw error;
-    }
+    return this.request<DatabaseInfo>({ type: 'load', year }, { onProgress, signal });
   }
 
   /**
-   * Internal database loading logic
+   * Download a database into the persistent cache without opening it
    * @param year Year of the database
    * @param onProgress Optional progress callback
-   * @returns Database instance
+   * @param signal Optional abort signal; stops waiting for the download
+   * @returns true if it was downloaded, false if it was cached already
    */
-  private async _loadDatabaseInternal(
+  async downloadDatabase(
     year: number,
-    onProgress?: ProgressCallback
-  ): Promise<Database> {
-    await this.initSqlJs();
-
-    if (!this.SQL) {
-      throw new Error('Failed to initialize sql.js');
-    }
-
-    let data: Uint8Array | null = null;
-
-    // Try IndexedDB cache
-    data = await databaseCache.get(year);
-
-    if (data) {
-      console.log(`Loaded database for year ${year} from IndexedDB cache`);
-    } else {
-      // Fetch from network
-      console.log(`Fetching database for year ${year} from network`);
-      data = await databaseLoader.fetchDatabase(year, onProgress);
-
-      // Cache in IndexedDB for next time
-      try {
-        await databaseCache.set(year, data);
-        console.log(`Cached database for year ${year} in IndexedDB`);
-      } catch (error) {
-        console.warn(`Failed to cache database for year ${year}:`, error);
-        // Continue anyway
-      }
-    }
-
-    // Initialize database
-    const db = new this.SQL.Database(data);
-
-    // Store in memory cache
-    this.memoryCache.set(year, db);
-    this.updateLRU(year);
-
-    return db;
+    onProgress?: ProgressCallback,
+    signal?: AbortSignal
+  ): Promise<boolean> {
+    return this.request<boolean>({ type: 'download', year }, { onProgress, signal });
   }
 
   /**
@@ -178,40 +257,26 @@ export class DatabaseManager {
    * @param year Year of the database
    * @param sql SQL query string
    * @param params Optional query parameters
+   * @param signal Optional abort signal to cancel the query
    * @returns Query results
    */
   async executeQuery(
     year: number,
     sql: string,
-    params?: any[]
+    params?: any[],
+    signal?: AbortSignal
   ): Promise<any[]> {
-    const db = await this.loadDatabase(year);
-
-    try {
-      const results = db.exec(sql, params);
-
-      if (results.length === 0) {
-        return [];
-      }
-
-      // Convert to array of objects
-      const columns = results[0].columns;
-      const values = results[0].values;
+    return this.request<any[]>({ type: 'query', year, sql, params }, { signal });
+  }
 
-      return values.map((row: any[]) => {
-        const obj: any = {};
-        columns.forEach((col: string, index: number) => {
-          obj[col] = row[index];
-        });
-        return obj;
-      });
-    } catch (error) {
-      throw new Error(
-        `Query execution failed for year ${year}: ${
-          error instanceof Error ? error.message : 'Unknown error'
-        }`
-      );
-    }
+  /**
+   * Make sure a database has an index over analyzed (normalized and/or stemmed) content
+   * @param year Year of the database
+   * @param options Analysis the index must be built with
+   * @returns true if the index is available
+   */
+  async ensureAnalyzedIndex(year: number, options: AnalyzerOptions): Promise<boolean> {
+    return this.request<boolean>({ type: 'analyze', year, options });
   }
 
   /**
@@ -220,20 +285,27 @@ export class DatabaseManager {
    * @returns true if loaded in memory
    */
   isLoaded(year: number): boolean {
-    return this.memoryCache.has(year);
+    return this.loadedYears.has(year);
   }
 
   /**
-   * Get loaded database directly (throws if not loaded)
-   * @param year Year of the database
-   * @returns Database instance
+   * Get the memory used by the databases the worker holds
+   * @returns Memory status
    */
-  getLoadedDatabase(year: number): Database {
-    const db = this.memoryCache.get(year);
-    if (!db) {
-      throw new Error(`Database for year ${year} is not loaded`);
-    }
-    return db;
+  getMemoryStatus(): MemoryStatus {
+    return this.memoryStatus;
+  }
+
+  /**
+   * Subscribe to memory status changes
+   * @param listener Called with each new status
+   * @returns Function that unsubscribes
+   */
+  onMemoryChange(listener: (status: MemoryStatus) => void): () => void {
+    this.memoryListeners.add(listener);
+    return () => {
+      this.memoryListeners.delete(listener);
+    };
   }
 
   /**
@@ -241,49 +313,27 @@ export class DatabaseManager {
    * @param year Optional specific year to clear, or all if not provided
    */
   async clearCache(year?: number): Promise<void> {
-    if (year !== undefined) {
-      // Clear specific year
-      const db = this.memoryCache.get(year);
-      if (db) {
-        db.close();
-        this.memoryCache.delete(year);
-      }
-
-      const lruIndex = this.lruQueue.indexOf(year);
-      if (lruIndex > -1) {
-        this.lruQueue.splice(lruIndex, 1);
-      }
-
-      await databaseCache.delete(year);
-    } else {
-      // Clear all
-      for (const db of this.memoryCache.values()) {
-        db.close();
-      }
-      this.memoryCache.clear();
-      this.lruQueue = [];
-
-      await databaseCache.clear();
+    await this.request({ type: 'clear', year });
+  }
+
+  /**
+   * Compare the cached years with the corpus manifest and drop changed ones.
+   * Runs once per session.
+   * @returns Years whose data was updated
+   */
+  checkForUpdates(): Promise<number[]> {
+    if (!this.updateCheck) {
+      this.updateCheck = this.request<number[]>({ type: 'checkUpdates' });
     }
+    return this.updateCheck;
   }
 
   /**
    * Get cache statistics
    * @returns Cache stats
    */
-  async getCacheStats(): Promise<{
-    memoryCount: number;
-    cachedYears: number[];
-    cacheSize: number;
-  }> {
-    const cachedYears = await databaseCache.getCachedYears();
-    const cacheSize = await databaseCache.getCacheSize();
-
-    return {
-      memoryCount: this.memoryCache.size,
-      cachedYears,
-      cacheSize,
-    };
+  async getCacheStats(): Promise<CacheStats> {
+    return this.request<CacheStats>({ type: 'stats' });
   }
 }
 
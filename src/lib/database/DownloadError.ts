@@ -0,0 +1,113 @@
+/**
+ * Download Errors
+ * Distinguish why a database download failed, so it can be retried when the
+ * cause is transient and reported precisely when it is not.
+ * Also holds the error for a runtime that cannot start at all.
+ */
+
+/**
+ * Base class of database download failures
+ */
+export class DownloadError extends Error {
+  /**
+   * @param message Error message
+   * @param retryable Whether trying again may succeed
+   */
+  constructor(message: string, readonly retryable: boolean) {
+    super(message);
+    this.name = 'DownloadError';
+  }
+}
+
+/**
+ * The connection failed or dropped before the file was complete
+ */
+export class NetworkError extends DownloadError {
+  constructor(message: string) {
+    super(message, true);
+    this.name = 'NetworkError';
+  }
+}
+
+/**
+ * The server answered with an error status
+ */
+export class HttpError extends DownloadError {
+  /**
+   * @param status HTTP status code
+   * @param message Error message
+   */
+  constructor(readonly status: number, message: string) {
+    // Server errors, timeouts and rate limiting may pass; a missing file will not
+    super(message, status >= 500 || status === 408 || status === 429);
+    this.name = 'HttpError';
+  }
+}
+
+/**
+ * The downloaded file could not be decompressed
+ */
+export class DecompressionError extends DownloadError {
+  constructor(message: string) {
+    super(message, false);
+    this.name = 'DecompressionError';
+  }
+}
+
+/**
+ * The file does not match the checksum in the manifest. Its stored chunks
+ * are dropped, so trying again (as the loader does) downloads it afresh.
+ */
+export class ChecksumError extends DownloadError {
+  constructor(message: string) {
+    super(message, true);
+    this.name = 'ChecksumError';
+  }
+}
+
+/**
+ * The SQLite runtime (sql.js and its WebAssembly module) could not be started,
+ * so no database can be opened at all
+ */
+export class RuntimeInitError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'RuntimeInitError';
+  }
+}
+
+/**
+ * Check whether an error means the operation was cancelled
+ * @param error Caught error
+ * @returns true for aborts
+ */
+export function isAbortError(error: unknown): boolean {
+  return error instanceof DOMException && error.name === 'AbortError';
+}
+
+/**
+ * Recreate an error from what the database worker sent across,
+ * keeping its type
+ * @param name Error name
+ * @param message Error message
+ * @param status HTTP status of an HttpError
+ * @returns Error of the original type where known
+ */
+export function restoreError(name: string, message: string, status?: number): Error {
+  switch (name) {
+    case 'AbortError':
+      return new DOMException(message, 'AbortError');
+    case 'NetworkError':
+      return new NetworkError(message);
+    case 'HttpError':
+      return new HttpError(status ?? 0, message);
+    case 'DecompressionError':
+      return new DecompressionError(message);
+    case 'ChecksumError':
+      return new ChecksumError(message);
+    case 'RuntimeInitError':
+      return new RuntimeInitError(message);
+    default:
+      return new Error(message);
+  }
+}
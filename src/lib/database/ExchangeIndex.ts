@@ -0,0 +1,145 @@
+import type { Database } from 'sql.js';
+import { config } from '../utils/config';
+
+// Tables of the exchange index: one row per exchange, one per utterance in it
+export const EXCHANGE_TABLE = 'exchange';
+export const EXCHANGE_UTTERANCE_TABLE = 'exchange_utterance';
+
+// An exchange while the index is built
+interface ExchangeRow {
+  firstRowid: number;
+  date: number;
+  ids: string[];
+  participants: string[];
+}
+
+/**
+ * Check whether a database has the exchange index
+ * @param db sql.js database
+ * @returns true if both tables exist
+ */
+export function hasExchangeIndex(db: Database): boolean {
+  const results = db.exec(
+    `SELECT name FROM sqlite_master WHERE type = 'table' AND name IN (?, ?)`,
+    [EXCHANGE_TABLE, EXCHANGE_UTTERANCE_TABLE]
+  );
+  return results.length > 0 && results[0].values.length === 2;
+}
+
+/**
+ * Build the exchange index: the chains of utterances linked by prev/next,
+ * numbered in reading order (by date, then by the file order of their
+ * first utterance), with every utterance's exchange and position.
+ * Utterances caught in cyclic links start an exchange of their own where
+ * the cycle is first met, so every utterance belongs to exactly one exchange.
+ * @param db sql.js database
+ */
+export function buildExchangeIndex(db: Database): void {
+  const rowids = new Map<string, number>();
+  const next = new Map<string, string | null>();
+  const dates = new Map<string, number>();
+  const speakers = new Map<string, string>();
+  const prevs: [string, string | null][] = [];
+
+  const select = db.prepare(`
+    SELECT u.rowid, u.id, u.prev, u.next, u.date, COALESCE(p.name, u.person_id)
+    FROM utterance u
+    LEFT JOIN person p ON u.person_id = p.id
+    ORDER BY u.rowid
+  `);
+  try {
+    while (select.step()) {
+      const [rowid, id, prev, nextId, date, speaker] = select.get();
+      rowids.set(String(id), Number(rowid));
+      next.set(String(id), nextId ? String(nextId) : null);
+      dates.set(String(id), Number(date));
+      speakers.set(String(id), String(speaker ?? ''));
+      prevs.push([String(id), prev ? String(prev) : null]);
+    }
+  } finally {
+    select.free();
+  }
+
+  // A link back to a missing utterance also starts an exchange
+  const starts = prevs
+    .filter(([, prev]) => !prev || !rowids.has(prev))
+    .map(([id]) => id);
+
+  const exchanges: ExchangeRow[] = [];
+  const visited = new Set<string>();
+
+  const walk = (startId: string) => {
+    const exchange: ExchangeRow = {
+      firstRowid: rowids.get(startId)!,
+      date: dates.get(startId)!,
+      ids: [],
+      participants: [],
+    };
+    let id: string | null = startId;
+
+    while (id && rowids.has(id) && !visited.has(id) && exchange.ids.length < config.maxChainLength) {
+      visited.add(id);
+      exchange.ids.push(id);
+      const speaker = speakers.get(id)!;
+      if (!exchange.participants.includes(speaker)) exchange.participants.push(speaker);
+      id = next.get(id) ?? null;
+    }
+
+    exchanges.push(exchange);
+  };
+
+  starts.forEach(walk);
+  // What is left is only reachable through a cycle (or past the length guard)
+  for (const id of rowids.keys()) {
+    if (!visited.has(id)) walk(id);
+  }
+
+  exchanges.sort((a, b) => a.date - b.date || a.firstRowid - b.firstRowid);
+
+  db.run(`DROP TABLE IF EXISTS ${EXCHANGE_TABLE}`);
+  db.run(`DROP TABLE IF EXISTS ${EXCHANGE_UTTERANCE_TABLE}`);
+
+  db.run('BEGIN');
+  try {
+    db.run(`CREATE TABLE ${EXCHANGE_TABLE} (
+      number INTEGER PRIMARY KEY,
+      first_id TEXT NOT NULL,
+      last_id TEXT NOT NULL,
+      length INTEGER NOT NULL,
+      date INTEGER,
+      participants TEXT NOT NULL
+    )`);
+    db.run(`CREATE TABLE ${EXCHANGE_UTTERANCE_TABLE} (
+      utterance_id TEXT PRIMARY KEY,
+      exchange INTEGER NOT NULL,
+      position INTEGER NOT NULL
+    ) WITHOUT ROWID`);
+
+    const insertExchange = db.prepare(`INSERT INTO ${EXCHANGE_TABLE} VALUES (?, ?, ?, ?, ?, ?)`);
+    const insertUtterance = db.prepare(`INSERT INTO ${EXCHANGE_UTTERANCE_TABLE} VALUES (?, ?, ?)`);
+    try {
+      exchanges.forEach((exchange, index) => {
+        const number = index + 1;
+        insertExchange.run([
+          number,
+          exchange.ids[0],
+          exchange.ids[exchange.ids.length - 1],
+          exchange.ids.length,
+          exchange.date,
+          JSON.stringify(exchange.participants),
+        ]);
+        exchange.ids.forEach((id, position) => {
+          insertUtterance.run([id, number, position + 1]);
+        });
+      });
+    } finally {
+      insertExchange.free();
+      insertUtterance.free();
+    }
+
+    db.run('COMMIT');
+  } catch (error) {
+    db.run('ROLLBACK');
+    throw error;
+  }
+}
@@ -0,0 +1,200 @@
+import type { Database } from 'sql.js';
+import type { AnalyzerOptions, TextAnalyzer } from '../search/TextAnalyzer';
+import type { FullTextModule } from '@/types/database';
+
+// Name of the full-text index table (external content over utterance.content)
+export const FULL_TEXT_TABLE = 'utterance_fts';
+
+// Okapi BM25 parameters, same defaults as FTS5's built-in bm25()
+const BM25_K1 = 1.2;
+const BM25_B = 0.75;
+
+/**
+ * Detect which FTS module the sql.js build supports.
+ * FTS5 is preferred; the stock sql.js build only ships FTS3/4.
+ * @param db sql.js database
+ * @returns Supported module or null
+ */
+export function detectFullTextModule(db: Database): FullTextModule | null {
+  const results = db.exec('PRAGMA compile_options');
+  const options = results.length > 0
+    ? results[0].values.map((row) => String(row[0]))
+    : [];
+
+  if (options.includes('ENABLE_FTS5')) return 'fts5';
+  if (options.includes('ENABLE_FTS3') || options.includes('ENABLE_FTS4')) return 'fts4';
+  return null;
+}
+
+/**
+ * Get the module of an existing full-text index
+ * @param tableSql CREATE statement of the index table from sqlite_master
+ * @returns Module or null if the statement is not an FTS table
+ */
+export function parseFullTextModule(tableSql: string | null | undefined): FullTextModule | null {
+  if (!tableSql) return null;
+  const match = /USING\s+(fts5|fts4)/i.exec(tableSql);
+  return match ? (match[1].toLowerCase() as FullTextModule) : null;
+}
+
+/**
+ * Get the module of the full-text index stored in a database
+ * @param db sql.js database
+ * @returns Module or null if the database has no index
+ */
+export function getFullTextIndex(db: Database): FullTextModule | null {
+  const results = db.exec(
+    `SELECT sql FROM sqlite_master WHERE type = 'table' AND name = ?`,
+    [FULL_TEXT_TABLE]
+  );
+  if (results.length === 0) return null;
+  return parseFullTextModule(results[0].values[0][0] as string);
+}
+
+/**
+ * Build the full-text index over utterance.content
+ * @param db sql.js database
+ * @param module FTS module to use
+ */
+export function buildFullTextIndex(db: Database, module: FullTextModule): void {
+  // Keep å, ä and ö distinct from a and o
+  const createSql = module === 'fts5'
+    ? `CREATE VIRTUAL TABLE ${FULL_TEXT_TABLE} USING fts5(
+        content,
+        content='utterance',
+        content_rowid='rowid',
+        tokenize="unicode61 remove_diacritics 0"
+      )`
+    : `CREATE VIRTUAL TABLE ${FULL_TEXT_TABLE} USING fts4(
+        content='utterance',
+        content,
+        tokenize=unicode61 'remove_diacritics=0'
+      )`;
+
+  db.run(createSql);
+  db.run(`INSERT INTO ${FULL_TEXT_TABLE}(${FULL_TEXT_TABLE}) VALUES('rebuild')`);
+}
+
+/**
+ * Get the name of the contentless index over analyzed content
+ * (utterance_fts_norm, utterance_fts_stem or utterance_fts_norm_stem)
+ * @param options Analyzer options
+ * @returns Table name
+ */
+export function getAnalyzedTable(options: AnalyzerOptions): string {
+  const parts = [options.rules ? 'norm' : null, options.stem ? 'stem' : null];
+  return [FULL_TEXT_TABLE, ...parts.filter(Boolean)].join('_');
+}
+
+/**
+ * Get the key of the analysis an analyzed index was built with
+ * @param db sql.js database
+ * @param table Analyzed index table
+ * @returns Analyzer key, or null if there is no such index
+ */
+export function getAnalyzedIndexKey(db: Database, table: string): string | null {
+  const keyTable = `${table}_key`;
+  const tables = db.exec(
+    `SELECT name FROM sqlite_master WHERE type = 'table' AND name IN (?, ?)`,
+    [table, keyTable]
+  );
+  if (tables.length === 0 || tables[0].values.length < 2) return null;
+
+  const results = db.exec(`SELECT key FROM ${keyTable}`);
+  return results.length > 0 ? String(results[0].values[0][0]) : null;
+}
+
+/**
+ * Build (or rebuild) an index over analyzed content.
+ * The index is contentless: it only maps analyzed words to utterance rowids,
+ * the original text stays in utterance.content.
+ * @param db sql.js database
+ * @param module FTS module to use
+ * @param analyzer Text analyzer
+ */
+export function buildAnalyzedIndex(
+  db: Database,
+  module: FullTextModule,
+  analyzer: TextAnalyzer
+): void {
+  const table = getAnalyzedTable(analyzer.options);
+  const keyTable = `${table}_key`;
+
+  db.run(`DROP TABLE IF EXISTS ${table}`);
+  db.run(`DROP TABLE IF EXISTS ${keyTable}`);
+
+  db.run(
+    module === 'fts5'
+      ? `CREATE VIRTUAL TABLE ${table} USING fts5(
+          content,
+          content='',
+          tokenize="unicode61 remove_diacritics 0"
+        )`
+      : `CREATE VIRTUAL TABLE ${table} USING fts4(
+          content='',
+          content,
+          tokenize=unicode61 'remove_diacritics=0'
+        )`
+  );
+
+  const select = db.prepare('SELECT rowid, content FROM utterance');
+  const insert = db.prepare(
+    `INSERT INTO ${table}(${module === 'fts5' ? 'rowid' : 'docid'}, content) VALUES (?, ?)`
+  );
+
+  db.run('BEGIN');
+  try {
+    while (select.step()) {
+      const [rowid, content] = select.get();
+      insert.run([rowid, analyzer.analyzeText(String(content ?? ''))]);
+    }
+
+    db.run(`CREATE TABLE ${keyTable} (key TEXT)`);
+    db.run(`INSERT INTO ${keyTable} VALUES (?)`, [analyzer.key]);
+    db.run('COMMIT');
+  } catch (error) {
+    db.run('ROLLBACK');
+    throw error;
+  } finally {
+    select.free();
+    insert.free();
+  }
+}
+
+/**
+ * Register bm25() for FTS4, which has no built-in ranking function.
+ * It takes matchinfo(utterance_fts, 'pcnalx') and, like FTS5's bm25(),
+ * returns a negative score where lower is more relevant.
+ * sql.js drops custom functions on export(), so call this after every export.
+ * @param db sql.js database
+ */
+export function registerRankFunction(db: Database): void {
+  db.create_function('bm25', (matchinfo: Uint8Array) => {
+    // Copy to get a 4-byte aligned buffer
+    const info = new Uint32Array(matchinfo.slice().buffer);
+    const phrases = info[0];
+    const columns = info[1];
+    const rows = info[2];
+    const avgLength = info.subarray(3, 3 + columns);
+    const length = info.subarray(3 + columns, 3 + 2 * columns);
+    const hits = 3 + 2 * columns;
+
+    let score = 0;
+    for (let phrase = 0; phrase < phrases; phrase++) {
+      for (let column = 0; column < columns; column++) {
+        const offset = hits + 3 * (column + phrase * columns);
+        const termFrequency = info[offset];
+        const documentFrequency = info[offset + 2];
+        if (termFrequency === 0) continue;
+
+        const idf = Math.log(
+          (rows - documentFrequency + 0.5) / (documentFrequency + 0.5) + 1
+        );
+        const norm = 1 - BM25_B + (BM25_B * length[column]) / (avgLength[column] || 1);
+        score += (idf * termFrequency * (BM25_K1 + 1)) / (termFrequency + BM25_K1 * norm);
+      }
+    }
+
+    return -score;
+  });
+}
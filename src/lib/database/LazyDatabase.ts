@@ -0,0 +1,110 @@
+import * as Comlink from 'comlink';
+import type {
+  LazyHttpDatabase,
+  SplitFileConfig,
+  SqliteComlinkMod,
+} from 'sql.js-httpvfs/dist/sqlite.worker';
+import httpvfsWorkerUrl from 'sql.js-httpvfs/dist/sqlite.worker.js?url';
+import httpvfsWasmUrl from 'sql.js-httpvfs/dist/sql-wasm.wasm?url';
+import { config } from '../utils/config';
+import { FULL_TEXT_TABLE, parseFullTextModule } from './FullTextIndex';
+import type { FullTextModule, QueryableDatabase } from '@/types/database';
+
+/**
+ * Lazy Database
+ * A remote SQLite file opened through a virtual file system that fetches
+ * pages on demand with HTTP Range requests (sql.js-httpvfs).
+ * Nothing but the pages a query touches is downloaded.
+ */
+export class LazyDatabase implements QueryableDatabase {
+  private constructor(
+    private readonly worker: Worker,
+    private readonly httpvfs: Comlink.Remote<SqliteComlinkMod>,
+    private readonly db: Comlink.Remote<LazyHttpDatabase>,
+    readonly fullText: FullTextModule | null
+  ) {}
+
+  /**
+   * Open the database for a year
+   * @param year Year of the database
+   * @returns Lazily loaded database
+   */
+  static async open(year: number): Promise<LazyDatabase> {
+    const worker = new Worker(httpvfsWorkerUrl);
+
+    try {
+      const httpvfs = Comlink.wrap<SqliteComlinkMod>(worker);
+      // The worker hands back a proxy of the database, not the object itself
+      const db = (await httpvfs.SplitFileHttpDatabase(httpvfsWasmUrl, [
+        LazyDatabase.fileConfig(year),
+      ])) as unknown as Comlink.Remote<LazyHttpDatabase>;
+
+      // Fail early (e.g. no Range support or missing file) rather than on the first query.
+      // A remote file is read-only, so full-text search needs a prebuilt FTS5 index
+      // (the httpvfs runtime has no FTS4 ranking function).
+      const tables = (await db.query(
+        `SELECT sql FROM sqlite_master WHERE type = 'table' AND name = ?`,
+        [FULL_TEXT_TABLE]
+      )) as { sql: string }[];
+      const fullText = parseFullTextModule(tables[0]?.sql) === 'fts5' ? 'fts5' : null;
+
+      return new LazyDatabase(worker, httpvfs, db, fullText);
+    } catch (error) {
+      worker.terminate();
+      throw new Error(
+        `Failed to open remote database for year ${year}: ${
+          error instanceof Error ? error.message : 'Unknown error'
+        }`
+      );
+    }
+  }
+
+  /**
+   * Build the virtual file configuration for a year
+   * @param year Year of the database
+   * @returns sql.js-httpvfs file configuration
+   */
+  private static fileConfig(year: number): SplitFileConfig {
+    if (config.databaseLoadMode === 'lazy-chunked') {
+      return {
+        from: 'jsonconfig',
+        configUrl: config.lazyChunkConfigUrl(year),
+      };
+    }
+
+    return {
+      from: 'inline',
+      config: {
+        serverMode: 'full',
+        url: config.lazyDatabaseUrl(year),
+        requestChunkSize: config.lazyRequestChunkSize,
+      },
+    };
+  }
+
+  /**
+   * Execute a query
+   * @param sql SQL query string
+   * @param params Optional query parameters
+   * @returns Rows as objects
+   */
+  async query(sql: string, params?: any[]): Promise<any[]> {
+    return this.db.query(sql, params);
+  }
+
+  /**
+   * Bytes held in memory: the pages fetched so far, which the virtual file keeps
+   * @returns Fetched bytes
+   */
+  async memoryUsage(): Promise<number> {
+    const stats = await this.httpvfs.getStats();
+    return stats?.totalFetchedBytes ?? 0;
+  }
+
+  /**
+   * Close the database and stop its worker
+   */
+  close(): void {
+    this.worker.terminate();
+  }
+}
@@ -0,0 +1,82 @@
+import { config } from '../utils/config';
+import type { CorpusManifest, ManifestYear } from '@/types/database';
+import { AVAILABLE_YEARS } from '@/types/app';
+
+/**
+ * Get the checksum identifying a year's published file
+ * @param entry Manifest entry
+ * @returns SHA-256 digest, or the ETag if there is none
+ */
+export function getManifestChecksum(entry: ManifestYear): string | null {
+  return entry.sha256 ?? entry.etag ?? null;
+}
+
+/**
+ * Get the URL a year's database is downloaded from
+ * @param year Year
+ * @param entry Manifest entry of the year, if known
+ * @returns The file the entry names, or the default file name without an
+ *   entry or when local copies are used in development
+ */
+export function getDatabaseUrl(year: number, entry: ManifestYear | null): string {
+  if (!entry || config.localDatabases) return config.databaseUrl(year);
+  return `${config.databaseBaseUrl}/${entry.file}`;
+}
+
+/**
+ * Get the years the corpus has, which may have gaps
+ * @param manifest Corpus manifest, or null if unavailable
+ * @returns Years in order (the built-in list without a manifest)
+ */
+export function getAvailableYears(manifest: CorpusManifest | null): number[] {
+  if (!manifest) return AVAILABLE_YEARS;
+  return manifest.years.map((entry) => entry.year).sort((a, b) => a - b);
+}
+
+/**
+ * Manifest Loader
+ * Fetches the corpus manifest once per session. Without a reachable
+ * manifest (offline, or not published) it resolves to null and
+ * callers keep their previous behaviour.
+ */
+export class ManifestLoader {
+  private manifest: Promise<CorpusManifest | null> | null = null;
+
+  /**
+   * Load the corpus manifest
+   * @returns Manifest, or null if it could not be loaded
+   */
+  load(): Promise<CorpusManifest | null> {
+    if (!this.manifest) {
+      this.manifest = this.fetchManifest();
+    }
+    return this.manifest;
+  }
+
+  /**
+   * Get the manifest entry of a year
+   * @param year Year
+   * @returns Entry, or null if unknown
+   */
+  async getYear(year: number): Promise<ManifestYear | null> {
+    const manifest = await this.load();
+    return manifest?.years.find((entry) => entry.year === year) ?? null;
+  }
+
+  private async fetchManifest(): Promise<CorpusManifest | null> {
+    try {
+      // Revalidate so a republished corpus is noticed on the next visit
+      const response = await fetch(config.manifestUrl(), { cache: 'no-cache' });
+      if (!response.ok) {
+        throw new Error(`HTTP ${response.status}`);
+      }
+      return (await response.json()) as CorpusManifest;
+    } catch (error) {
+      console.warn('Corpus manifest unavailable:', error);
+      return null;
+    }
+  }
+}
+
+// Singleton instance
+export const manifestLoader = new ManifestLoader();
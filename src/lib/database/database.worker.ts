@@ -0,0 +1,114 @@
+import { DatabaseEngine } from './DatabaseEngine';
+import { HttpError } from './DownloadError';
+import type { DatabaseInfo } from '@/types/database';
+import type { WorkerRequest, WorkerResponse } from '@/types/worker';
+
+/**
+ * Database Worker
+ * Runs sql.js, the in-memory databases and their LRU off the main thread.
+ * Requests are answered through DatabaseManager's message-based proxy.
+ */
+
+// The DOM lib has no worker global scope; its Worker interface has the same messaging surface
+const ctx = self as unknown as Worker;
+
+const post = (message: WorkerResponse) => ctx.postMessage(message);
+
+const engine = new DatabaseEngine((status) => post({ type: 'memory', status }));
+
+// Loads, downloads and queries in progress, aborted when their request is cancelled
+const controllers = new Map<number, AbortController>();
+
+ctx.onmessage = async (event: MessageEvent<WorkerRequest>) => {
+  const request = event.data;
+
+  if (request.type === 'cancel') {
+    // Requests already answered, or that cannot be cancelled, have no controller
+    controllers.get(request.id)?.abort();
+    return;
+  }
+
+  try {
+    switch (request.type) {
+      case 'load': {
+        const controller = new AbortController();
+        controllers.set(request.id, controller);
+        const db = await engine.loadDatabase(
+          request.year,
+          (progress) => post({ type: 'progress', id: request.id, progress }),
+          controller.signal
+        );
+        const info: DatabaseInfo = { year: request.year, fullText: db.fullText };
+        post({ type: 'result', id: request.id, value: info });
+        break;
+      }
+
+      case 'download': {
+        const controller = new AbortController();
+        controllers.set(request.id, controller);
+        const downloaded = await engine.downloadDatabase(
+          request.year,
+          (progress) => post({ type: 'progress', id: request.id, progress }),
+          controller.signal
+        );
+        post({ type: 'result', id: request.id, value: downloaded });
+        break;
+      }
+
+      case 'query': {
+        const controller = new AbortController();
+        controllers.set(request.id, controller);
+        const rows = await engine.executeQuery(
+          request.year,
+          request.sql,
+          request.params,
+          controller.signal,
+          () => {
+            if (controller.signal.aborted) return false;
+            post({ type: 'started', id: request.id });
+            return true;
+          }
+        );
+        if (rows !== null) {
+          post({ type: 'result', id: request.id, value: rows });
+        }
+        break;
+      }
+
+      case 'analyze': {
+        const available = await engine.ensureAnalyzedIndex(request.year, request.options);
+        post({ type: 'result', id: request.id, value: available });
+        break;
+      }
+
+      case 'clear': {
+        await engine.clearCache(request.year);
+        post({ type: 'result', id: request.id, value: undefined });
+        break;
+      }
+
+      case 'stats': {
+        const stats = await engine.getCacheStats();
+        post({ type: 'result', id: request.id, value: stats });
+        break;
+      }
+
+      case 'checkUpdates': {
+        const changed = await engine.invalidateChangedYears();
+        post({ type: 'result', id: request.id, value: changed });
+        break;
+      }
+    }
+  } catch (error) {
+    post({
+      type: 'error',
+      id: request.id,
+      // The name lets the main thread recreate the error type (see restoreError)
+      name: error instanceof Error || error instanceof DOMException ? error.name : 'Error',
+      message: error instanceof Error ? error.message : 'Unknown error',
+      status: error instanceof HttpError ? error.status : undefined,
+    });
+  } finally {
+    controllers.delete(request.id);
+  }
+};
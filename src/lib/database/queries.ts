@@ -1,5 +1,6 @@
 import { databaseManager } from './DatabaseManager';
-import type { UtteranceWithPerson } from '@/types/database';
+import { config } from '@/lib/utils/config';
+import type { ExchangePosition, ExchangeSummary, UtteranceWithPerson } from '@/types/database';
 
 /**
  * Fetch a single utterance with person data
@@ -37,7 +38,7 @@ export async function getUtterance(
  * @param startId Starting utterance ID
  * @param direction Direction to follow ('prev' or 'next')
  * @param count Number of utterances to fetch
- * @returns Array of utterances
+ * @returns Array of utterances, starting with the one at startId
  */
 export async function getUtteranceChain(
   year: number,
@@ -45,19 +46,24 @@ export async function getUtteranceChain(
   direction: 'prev' | 'next',
   count: number
 ): Promise<UtteranceWithPerson[]> {
-  const utterances: UtteranceWithPerson[] = [];
-  let currentId: string | null = startId;
-
-  for (let i = 0; i < count && currentId; i++) {
-    const utterance = await getUtterance(year, currentId);
+  if (count <= 0) return [];
 
-    if (!utterance) break;
-
-    utterances.push(utterance);
-    currentId = direction === 'prev' ? utterance.prev : utterance.next;
-  }
+  const sql = `
+    WITH RECURSIVE
+      ${chainCte('chain', direction, `SELECT id, ${direction}, 0 FROM utterance WHERE id = ?`, count - 1)}
+    SELECT
+      u.*,
+      p.name as person_name,
+      p.gender as person_gender,
+      p.party as person_party
+    FROM chain
+    JOIN utterance u ON u.id = chain.id
+    JOIN person p ON u.person_id = p.id
+    ORDER BY chain.depth
+  `;
 
-  return utterances;
+  const results = await databaseManager.executeQuery(year, sql, [startId]);
+  return mapChainRows(results);
 }
 
 /**
@@ -78,44 +84,47 @@ export async function getUtteranceContext(
   center: UtteranceWithPerson | null;
   after: UtteranceWithPerson[];
 }> {
-  // Get center utterance
-  const center = await getUtterance(year, utteranceId);
+  // Both directions from the center in one statement; the center is at position 0
+  const sql = `
+    WITH RECURSIVE
+      ${chainCte('before', 'prev', 'SELECT id, prev, 0 FROM utterance WHERE id = ?', Math.max(beforeCount, 0))},
+      ${chainCte('after', 'next', 'SELECT id, next, 0 FROM utterance WHERE id = ?', Math.max(afterCount, 0))},
+      context(id, position) AS (
+        SELECT id, -depth FROM before
+        UNION
+        SELECT id, depth FROM after
+      )
+    SELECT
+      u.*,
+      p.name as person_name,
+      p.gender as person_gender,
+      p.party as person_party,
+      context.position
+    FROM context
+    JOIN utterance u ON u.id = context.id
+    JOIN person p ON u.person_id = p.id
+    ORDER BY context.position
+  `;
 
-  if (!center) {
+  const results = await databaseManager.executeQuery(year, sql, [utteranceId, utteranceId]);
+  const centerRow = results.find((row) => row.position === 0);
+
+  if (!centerRow) {
     return { before: [], center: null, after: [] };
   }
 
-  // Get utterances before
-  let before: UtteranceWithPerson[] = [];
-  if (center.prev && beforeCount > 0) {
-    before = await getUtteranceChain(year, center.prev, 'prev', beforeCount);
-    before.reverse(); // Reverse to get chronological order
-  }
+  const before = mapChainRows(
+    results.filter((row) => row.position < 0).reverse(),
+    new Set([centerRow.id])
+  );
+  before.reverse(); // Reverse to get chronological order
 
-  // Get utterances after
-  let after: UtteranceWithPerson[] = [];
-  if (center.next && afterCount > 0) {
-    after = await getUtteranceChain(year, center.next, 'next', afterCount);
-  }
+  const after = mapChainRows(
+    results.filter((row) => row.position > 0),
+    new Set([centerRow.id])
+  );
 
-  return { before, center, after };
-}
-
-/**
- * Get available parties for a given year
- * @param year Year of the database
- * @returns Array of distinct party names
- */
-export async function getParties(year: number): Promise<string[]> {
-  const sql = `
-    SELECT DISTINCT party
-    FROM person
-    WHERE party IS NOT NULL AND party != ''
-    ORDER BY party
-  `;
-
-  const results = await databaseManager.executeQuery(year, sql);
-  return results.map((row) => row.party);
+  return { before, center: mapRowToUtterance(centerRow), after };
 }
 
 /**
@@ -144,130 +153,88 @@ export async function getDateRange(
 }
 
 /**
- * Get the start of the exchange containing this utterance
- * (Follow prev links until we hit null)
+ * Get the sitting days of a given year (days with utterances)
  * @param year Year of the database
- * @param utteranceId ID of any utterance in the exchange
- * @returns First utterance of the exchange
+ * @returns Dates as YYYYMMDD integers, in order
  */
-export async function getExchangeStart(year: number, utteranceId: string): Promise<UtteranceWithPerson | null> {
-  let currentId = utteranceId;
-  let utterance = await getUtterance(year, currentId);
-
-  if (!utterance) return null;
-
-  // Follow prev links until we reach the start (prev === null)
-  while (utterance.prev) {
-    const prevUtterance = await getUtterance(year, utterance.prev);
-    if (!prevUtterance) break; // Broken link
-    utterance = prevUtterance;
-  }
-
-  return utterance;
-}
-
-/**
- * Get the first utterance of the previous exchange
- * @param year Year of the database
- * @param currentUtteranceId Current utterance ID
- * @returns First utterance of previous exchange or null
- */
-export async function getPreviousExchange(year: number, currentUtteranceId: string): Promise<UtteranceWithPerson | null> {
-  // Find the start of the current exchange
-  const currentExchangeStart = await getExchangeStart(year, currentUtteranceId);
-  if (!currentExchangeStart) return null;
-
-  // Find utterances that start an exchange (prev IS NULL) before this one
+export async function getSittingDays(year: number): Promise<number[]> {
   const sql = `
-    SELECT
-      u.*,
-      p.name as person_name,
-      p.gender as person_gender,
-      p.party as person_party
-    FROM utterance u
-    JOIN person p ON u.person_id = p.id
-    WHERE u.prev IS NULL
-      AND (u.date < ? OR (u.date = ? AND u.id < ?))
-    ORDER BY u.date DESC, u.id DESC
-    LIMIT 1
+    SELECT DISTINCT date
+    FROM utterance
+    ORDER BY date
   `;
 
-  const results = await databaseManager.executeQuery(year, sql, [
-    currentExchangeStart.date,
-    currentExchangeStart.date,
-    currentExchangeStart.id
-  ]);
-
-  if (results.length === 0) return null;
-  return mapRowToUtterance(results[0]);
+  const results = await databaseManager.executeQuery(year, sql);
+  return results.map((row) => row.date);
 }
 
 /**
- * Get the first utterance of the next exchange
+ * Get the start of the exchange containing this utterance
+ * (Follow prev links until we hit null)
  * @param year Year of the database
- * @param currentUtteranceId Current utterance ID
- * @returns First utterance of next exchange or null
+ * @param utteranceId ID of any utterance in the exchange
+ * @returns First utterance of the exchange, or null if it is not found
+ *   within config.maxChainLength links (see exchangeStartCte)
  */
-export async function getNextExchange(year: number, currentUtteranceId: string): Promise<UtteranceWithPerson | null> {
-  // Find the start of the current exchange
-  const currentExchangeStart = await getExchangeStart(year, currentUtteranceId);
-  if (!currentExchangeStart) return null;
-
-  // Find utterances that start an exchange (prev IS NULL) after this one
+export async function getExchangeStart(year: number, utteranceId: string): Promise<UtteranceWithPerson | null> {
   const sql = `
+    WITH RECURSIVE
+      ${exchangeStartCte('SELECT id, prev, 0 FROM utterance WHERE id = ?')}
     SELECT
       u.*,
       p.name as person_name,
       p.gender as person_gender,
       p.party as person_party
-    FROM utterance u
+    FROM start
+    JOIN utterance u ON u.id = start.id
     JOIN person p ON u.person_id = p.id
-    WHERE u.prev IS NULL
-      AND (u.date > ? OR (u.date = ? AND u.id > ?))
-    ORDER BY u.date ASC, u.id ASC
-    LIMIT 1
   `;
 
-  const results = await databaseManager.executeQuery(year, sql, [
-    currentExchangeStart.date,
-    currentExchangeStart.date,
-    currentExchangeStart.id
-  ]);
-
+  const results = await databaseManager.executeQuery(year, sql, [utteranceId]);
   if (results.length === 0) return null;
   return mapRowToUtterance(results[0]);
 }
 
 /**
- * Get the first utterance of a year
+ * Get the whole exchange containing this utterance, from its start
+ * to the end of its next links
  * @param year Year of the database
- * @returns First utterance or null
+ * @param utteranceId ID of any utterance in the exchange
+ * @returns Utterances of the exchange in order (empty if not found, or its
+ *   start is not within config.maxChainLength links)
  */
-export async function getFirstUtterance(year: number): Promise<UtteranceWithPerson | null> {
+export async function getExchange(year: number, utteranceId: string): Promise<UtteranceWithPerson[]> {
   const sql = `
+    WITH RECURSIVE
+      ${exchangeStartCte('SELECT id, prev, 0 FROM utterance WHERE id = ?')},
+      ${chainCte('exchange', 'next', 'SELECT id, next, 0 FROM utterance WHERE id = (SELECT id FROM start)')}
     SELECT
       u.*,
       p.name as person_name,
       p.gender as person_gender,
       p.party as person_party
-    FROM utterance u
+    FROM exchange
+    JOIN utterance u ON u.id = exchange.id
     JOIN person p ON u.person_id = p.id
-    ORDER BY u.date ASC, u.id ASC
-    LIMIT 1
+    ORDER BY exchange.depth
   `;
 
-  const results = await databaseManager.executeQuery(year, sql);
-  if (results.length === 0) return null;
-  return mapRowToUtterance(results[0]);
+  const results = await databaseManager.executeQuery(year, sql, [utteranceId]);
+  return mapChainRows(results);
 }
 
 /**
- * Get the last utterance of a year
+ * Get the first utterance of the previous exchange, in (date, id) order of
+ * exchange starts; for databases without the exchange index (see getExchangeByNumber)
  * @param year Year of the database
- * @returns Last utterance or null
+ * @param currentUtteranceId Current utterance ID
+ * @returns First utterance of previous exchange or null
  */
-export async function getLastUtterance(year: number): Promise<UtteranceWithPerson | null> {
+export async function getPreviousExchange(year: number, currentUtteranceId: string): Promise<UtteranceWithPerson | null> {
+  // Find utterances that start an exchange (prev IS NULL) before the start of the current one
   const sql = `
+    WITH RECURSIVE
+      ${exchangeStartCte('SELECT id, prev, 0 FROM utterance WHERE id = ?')}
     SELECT
       u.*,
       p.name as person_name,
@@ -275,40 +242,31 @@ export async function getLastUtterance(year: number): Promise<UtteranceWithPerso
       p.party as person_party
     FROM utterance u
     JOIN person p ON u.person_id = p.id
+    CROSS JOIN start
+    WHERE u.prev IS NULL
+      AND (u.date < start.date OR (u.date = start.date AND u.id < start.id))
     ORDER BY u.date DESC, u.id DESC
     LIMIT 1
   `;
 
-  const results = await databaseManager.executeQuery(year, sql);
+  const results = await databaseManager.executeQuery(year, sql, [currentUtteranceId]);
+
   if (results.length === 0) return null;
   return mapRowToUtterance(results[0]);
 }
 
 /**
- * Get the start of the last exchange in a year
- * @param year Year of the database
- * @returns First utterance of the last exchange or null
- */
-export async function getLastExchange(year: number): Promise<UtteranceWithPerson | null> {
-  // First, get the last utterance of the year
-  const lastUtterance = await getLastUtterance(year);
-  if (!lastUtterance) return null;
-
-  // Then find the start of that utterance's exchange
-  return await getExchangeStart(year, lastUtterance.id);
-}
-
-/**
- * Get the previous utterance with any kvinna tag
+ * Get the first utterance of the next exchange, in (date, id) order of
+ * exchange starts; for databases without the exchange index (see getExchangeByNumber)
  * @param year Year of the database
  * @param currentUtteranceId Current utterance ID
- * @returns Previous kvinna utterance or null
+ * @returns First utterance of next exchange or null
  */
-export async function getPreviousKvinnaUtterance(year: number, currentUtteranceId: string): Promise<UtteranceWithPerson | null> {
-  const currentUtterance = await getUtterance(year, currentUtteranceId);
-  if (!currentUtterance) return null;
-
+export async function getNextExchange(year: number, currentUtteranceId: string): Promise<UtteranceWithPerson | null> {
+  // Find utterances that start an exchange (prev IS NULL) after the start of the current one
   const sql = `
+    WITH RECURSIVE
+      ${exchangeStartCte('SELECT id, prev, 0 FROM utterance WHERE id = ?')}
     SELECT
       u.*,
       p.name as person_name,
@@ -316,130 +274,79 @@ export async function getPreviousKvinnaUtterance(year: number, currentUtteranceI
       p.party as person_party
     FROM utterance u
     JOIN person p ON u.person_id = p.id
-    WHERE (u.kvinna_1 = 1 OR u.kvinna_2 = 1 OR u.kvinna_3 = 1)
-      AND (u.date < ? OR (u.date = ? AND u.id < ?))
-    ORDER BY u.date DESC, u.id DESC
+    CROSS JOIN start
+    WHERE u.prev IS NULL
+      AND (u.date > start.date OR (u.date = start.date AND u.id > start.id))
+    ORDER BY u.date ASC, u.id ASC
     LIMIT 1
   `;
 
-  const results = await databaseManager.executeQuery(year, sql, [
-    currentUtterance.date,
-    currentUtterance.date,
-    currentUtterance.id
-  ]);
+  const results = await databaseManager.executeQuery(year, sql, [currentUtteranceId]);
 
   if (results.length === 0) return null;
   return mapRowToUtterance(results[0]);
 }
 
 /**
- * Get the next utterance with any kvinna tag
+ * Get the number of exchanges in a year from the exchange index
  * @param year Year of the database
- * @param currentUtteranceId Current utterance ID
- * @returns Next kvinna utterance or null
+ * @returns Number of exchanges, or null if the database has no exchange index
+ *   (lazily loaded databases, which cannot be written to)
  */
-export async function getNextKvinnaUtterance(year: number, currentUtteranceId: string): Promise<UtteranceWithPerson | null> {
-  const currentUtterance = await getUtterance(year, currentUtteranceId);
-  if (!currentUtterance) return null;
-
-  const sql = `
-    SELECT
-      u.*,
-      p.name as person_name,
-      p.gender as person_gender,
-      p.party as person_party
-    FROM utterance u
-    JOIN person p ON u.person_id = p.id
-    WHERE (u.kvinna_1 = 1 OR u.kvinna_2 = 1 OR u.kvinna_3 = 1)
-      AND (u.date > ? OR (u.date = ? AND u.id > ?))
-    ORDER BY u.date ASC, u.id ASC
-    LIMIT 1
-  `;
-
-  const results = await databaseManager.executeQuery(year, sql, [
-    currentUtterance.date,
-    currentUtterance.date,
-    currentUtterance.id
-  ]);
-
-  if (results.length === 0) return null;
-  return mapRowToUtterance(results[0]);
+export async function getExchangeCount(year: number): Promise<number | null> {
+  const tables = await databaseManager.executeQuery(
+    year,
+    `SELECT name FROM sqlite_master WHERE type = 'table' AND name IN ('exchange', 'exchange_utterance')`
+  );
+  if (tables.length < 2) return null;
+
+  const results = await databaseManager.executeQuery(year, 'SELECT MAX(number) as count FROM exchange');
+  return results[0]?.count ?? 0;
 }
 
 /**
- * Get the previous utterance by a female speaker
+ * Get an exchange by its number from the exchange index
  * @param year Year of the database
- * @param currentUtteranceId Current utterance ID
- * @returns Previous female speaker utterance or null
+ * @param number 1-based number of the exchange
+ * @returns Exchange or null if there is no such number
  */
-export async function getPreviousFemaleUtterance(year: number, currentUtteranceId: string): Promise<UtteranceWithPerson | null> {
-  const currentUtterance = await getUtterance(year, currentUtteranceId);
-  if (!currentUtterance) return null;
-
+export async function getExchangeByNumber(year: number, number: number): Promise<ExchangeSummary | null> {
   const sql = `
-    SELECT
-      u.*,
-      p.name as person_name,
-      p.gender as person_gender,
-      p.party as person_party
-    FROM utterance u
-    JOIN person p ON u.person_id = p.id
-    WHERE LOWER(p.gender) IN ('woman', 'kvinna')
-      AND (u.date < ? OR (u.date = ? AND u.id < ?))
-    ORDER BY u.date DESC, u.id DESC
-    LIMIT 1
+    SELECT *
+    FROM exchange
+    WHERE number = ?
   `;
 
-  const results = await databaseManager.executeQuery(year, sql, [
-    currentUtterance.date,
-    currentUtterance.date,
-    currentUtterance.id
-  ]);
-
+  const results = await databaseManager.executeQuery(year, sql, [number]);
   if (results.length === 0) return null;
-  return mapRowToUtterance(results[0]);
+  return mapRowToExchange(results[0]);
 }
 
 /**
- * Get the next utterance by a female speaker
+ * Get the exchange of an utterance and its position in it from the exchange index
  * @param year Year of the database
- * @param currentUtteranceId Current utterance ID
- * @returns Next female speaker utterance or null
+ * @param utteranceId ID of the utterance
+ * @returns Exchange and position, or null if the utterance is not indexed
  */
-export async function getNextFemaleUtterance(year: number, currentUtteranceId: string): Promise<UtteranceWithPerson | null> {
-  const currentUtterance = await getUtterance(year, currentUtteranceId);
-  if (!currentUtterance) return null;
-
+export async function getExchangePosition(year: number, utteranceId: string): Promise<ExchangePosition | null> {
   const sql = `
-    SELECT
-      u.*,
-      p.name as person_name,
-      p.gender as person_gender,
-      p.party as person_party
-    FROM utterance u
-    JOIN person p ON u.person_id = p.id
-    WHERE LOWER(p.gender) IN ('woman', 'kvinna')
-      AND (u.date > ? OR (u.date = ? AND u.id > ?))
-    ORDER BY u.date ASC, u.id ASC
-    LIMIT 1
+    SELECT e.*, eu.position
+    FROM exchange_utterance eu
+    JOIN exchange e ON e.number = eu.exchange
+    WHERE eu.utterance_id = ?
   `;
 
-  const results = await databaseManager.executeQuery(year, sql, [
-    currentUtterance.date,
-    currentUtterance.date,
-    currentUtterance.id
-  ]);
-
+  const results = await databaseManager.executeQuery(year, sql, [utteranceId]);
   if (results.length === 0) return null;
-  return mapRowToUtterance(results[0]);
+  return { exchange: mapRowToExchange(results[0]), position: results[0].position };
 }
 
 /**
- * Get the first utterance with any kvinna tag in a year
+ * Get the first utterance of a year
  * @param year Year of the database
- * @returns First kvinna utterance or null
+ * @returns First utterance or null
  */
-export async function getFirstKvinnaUtterance(year: number): Promise<UtteranceWithPerson | null> {
+export async function getFirstUtterance(year: number): Promise<UtteranceWithPerson | null> {
   const sql = `
     SELECT
       u.*,
@@ -448,7 +355,6 @@ export async function getFirstKvinnaUtterance(year: number): Promise<UtteranceWi
       p.party as person_party
     FROM utterance u
     JOIN person p ON u.person_id = p.id
-    WHERE (u.kvinna_1 = 1 OR u.kvinna_2 = 1 OR u.kvinna_3 = 1)
     ORDER BY u.date ASC, u.id ASC
     LIMIT 1
   `;
@@ -459,11 +365,11 @@ export async function getFirstKvinnaUtterance(year: number): Promise<UtteranceWi
 }
 
 /**
- * Get the last utterance with any kvinna tag in a year
+ * Get the last utterance of a year
  * @param year Year of the database
- * @returns Last kvinna utterance or null
+ * @returns Last utterance or null
  */
-export async function getLastKvinnaUtterance(year: number): Promise<UtteranceWithPerson | null> {
+export async function getLastUtterance(year: number): Promise<UtteranceWithPerson | null> {
   const sql = `
     SELECT
       u.*,
@@ -472,7 +378,6 @@ export async function getLastKvinnaUtterance(year: number): Promise<UtteranceWit
       p.party as person_party
     FROM utterance u
     JOIN person p ON u.person_id = p.id
-    WHERE (u.kvinna_1 = 1 OR u.kvinna_2 = 1 OR u.kvinna_3 = 1)
     ORDER BY u.date DESC, u.id DESC
     LIMIT 1
   `;
@@ -483,22 +388,28 @@ export async function getLastKvinnaUtterance(year: number): Promise<UtteranceWit
 }
 
 /**
- * Get the first utterance by a female speaker in a year
+ * Get the start of the last exchange in a year, walking back from its last
+ * utterance; for databases without the exchange index (see getExchangeByNumber)
  * @param year Year of the database
- * @returns First female speaker utterance or null
+ * @returns First utterance of the last exchange or null
  */
-export async function getFirstFemaleUtterance(year: number): Promise<UtteranceWithPerson | null> {
+export async function getLastExchange(year: number): Promise<UtteranceWithPerson | null> {
+  // Walk back from the last utterance of the year
   const sql = `
+    WITH RECURSIVE
+      ${exchangeStartCte(`
+        SELECT id, prev, 0 FROM (
+          SELECT id, prev FROM utterance ORDER BY date DESC, id DESC LIMIT 1
+        )
+      `)}
     SELECT
       u.*,
       p.name as person_name,
       p.gender as person_gender,
       p.party as person_party
-    FROM utterance u
+    FROM start
+    JOIN utterance u ON u.id = start.id
     JOIN person p ON u.person_id = p.id
-    WHERE LOWER(p.gender) IN ('woman', 'kvinna')
-    ORDER BY u.date ASC, u.id ASC
-    LIMIT 1
   `;
 
   const results = await databaseManager.executeQuery(year, sql);
@@ -507,27 +418,90 @@ export async function getFirstFemaleUtterance(year: number): Promise<UtteranceWi
 }
 
 /**
- * Get the last utterance by a female speaker in a year
- * @param year Year of the database
- * @returns Last female speaker utterance or null
+ * Recursive CTE following prev or next links from a seed row.
+ * Its rows are (id, link, depth), the seed at depth 0. It ends at a missing or
+ * broken link, or after maxDepth steps, which also bounds cyclic links.
+ * @param name Name of the CTE
+ * @param direction Link to follow
+ * @param seed SELECT giving the seed row as (id, link, 0)
+ * @param maxDepth Links followed at most
+ * @returns CTE definition for a WITH RECURSIVE clause
  */
-export async function getLastFemaleUtterance(year: number): Promise<UtteranceWithPerson | null> {
-  const sql = `
-    SELECT
-      u.*,
-      p.name as person_name,
-      p.gender as person_gender,
-      p.party as person_party
-    FROM utterance u
-    JOIN person p ON u.person_id = p.id
-    WHERE LOWER(p.gender) IN ('woman', 'kvinna')
-    ORDER BY u.date DESC, u.id DESC
-    LIMIT 1
-  `;
+function chainCte(
+  name: string,
+  direction: 'prev' | 'next',
+  seed: string,
+  maxDepth: number = config.maxChainLength
+): string {
+  const limit = Math.min(Math.floor(maxDepth), config.maxChainLength);
+
+  return `
+    ${name}(id, link, depth) AS (
+      ${seed}
+      UNION ALL
+      SELECT u.id, u.${direction}, ${name}.depth + 1
+      FROM ${name}
+      JOIN utterance u ON u.id = ${name}.link
+      WHERE ${name}.depth < ${limit}
+    )`;
+}
 
-  const results = await databaseManager.executeQuery(year, sql);
-  if (results.length === 0) return null;
-  return mapRowToUtterance(results[0]);
+/**
+ * CTEs finding the start of an exchange by following prev links from a seed row:
+ * back (the walk) and start (id and date of the first utterance).
+ * start is empty when the walk stops at config.maxChainLength before the
+ * links end, as in a longer or cyclic chain, since its last row is not the start.
+ * @param seed SELECT giving the seed row as (id, prev, 0)
+ * @returns CTE definitions for a WITH RECURSIVE clause
+ */
+function exchangeStartCte(seed: string): string {
+  return `
+    ${chainCte('back', 'prev', seed)},
+    start(id, date) AS (
+      SELECT u.id, u.date
+      FROM (SELECT id, link FROM back ORDER BY depth DESC LIMIT 1) walked
+      JOIN utterance u ON u.id = walked.id
+      WHERE walked.link IS NULL
+        OR NOT EXISTS (SELECT 1 FROM utterance WHERE id = walked.link)
+    )`;
+}
+
+/**
+ * Map rows along a chain of links to utterances, stopping where one repeats
+ * (a cycle in the links)
+ * @param rows Raw database rows in link order
+ * @param seen IDs already placed, e.g. the center of a context
+ * @returns Mapped utterances
+ */
+function mapChainRows(rows: any[], seen: Set<string> = new Set()): UtteranceWithPerson[] {
+  const utterances: UtteranceWithPerson[] = [];
+
+  for (const row of rows) {
+    if (seen.has(row.id)) {
+      console.warn(`Cyclic prev/next links at utterance ${row.id}`);
+      break;
+    }
+    seen.add(row.id);
+    utterances.push(mapRowToUtterance(row));
+  }
+
+  return utterances;
+}
+
+/**
+ * Map an exchange index row to ExchangeSummary
+ * @param row Raw database row
+ * @returns Mapped exchange object
+ */
+function mapRowToExchange(row: any): ExchangeSummary {
+  return {
+    number: row.number,
+    firstId: row.first_id,
+    lastId: row.last_id,
+    length: row.length,
+    date: row.date,
+    participants: JSON.parse(row.participants),
+  };
 }
 
 /**
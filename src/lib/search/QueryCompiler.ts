@@ -0,0 +1,144 @@
+import type { FullTextModule } from '@/types/database';
+import type { QueryNode } from '@/types/search';
+
+/**
+ * Compile a query tree to a SQL condition on u.content using LIKE.
+ * Terms and phrases match as substrings; prefixes must start a word.
+ * @param node Query tree
+ * @returns SQL condition and bindings
+ */
+export function compileToSql(node: QueryNode): { sql: string; bindings: any[] } {
+  switch (node.type) {
+    case 'term':
+      if (node.prefix) {
+        return { sql: `(' ' || u.content) LIKE ?`, bindings: [`% ${node.value}%`] };
+      }
+      return { sql: 'u.content LIKE ?', bindings: [`%${node.value}%`] };
+
+    case 'phrase':
+      return { sql: 'u.content LIKE ?', bindings: [`%${node.value}%`] };
+
+    case 'not': {
+      const child = compileToSql(node.child);
+      return { sql: `NOT (${child.sql})`, bindings: child.bindings };
+    }
+
+    case 'and':
+    case 'or': {
+      const children = node.children.map(compileToSql);
+      return {
+        sql: `(${children.map((c) => c.sql).join(` ${node.type.toUpperCase()} `)})`,
+        bindings: children.flatMap((c) => c.bindings),
+      };
+    }
+  }
+}
+
+/**
+ * Compile a query tree to a full-text MATCH expression.
+ * FTS only has a binary NOT ("a NOT b"), so an exclusion needs a positive
+ * sibling in the same AND group. Queries that cannot be expressed return
+ * null and should be run through compileToIndexSql (or compileToSql
+ * without an index) instead.
+ * @param node Query tree
+ * @param module FTS module the expression is for
+ * @returns MATCH expression or null
+ */
+export function compileToMatch(node: QueryNode, module: FullTextModule): string | null {
+  switch (node.type) {
+    case 'term': {
+      const value = quote(node.value, module);
+      if (!node.prefix) return value;
+      // FTS5 marks a quoted string as prefix with a trailing *, FTS4 needs it inside the quotes
+      return module === 'fts5' ? `${value}*` : `"${stripQuotes(node.value)}*"`;
+    }
+
+    case 'phrase':
+      return quote(node.value, module);
+
+    case 'not':
+      return null;
+
+    case 'or': {
+      const children = node.children.map((child) => compileToMatch(child, module));
+      if (children.some((child) => child === null)) return null;
+      return `(${children.join(' OR ')})`;
+    }
+
+    case 'and': {
+      const positives = node.children.filter((child) => child.type !== 'not');
+      const negatives = node.children.flatMap((child) =>
+        child.type === 'not' ? [child.child] : []
+      );
+      if (positives.length === 0) return null;
+
+      const included = positives.map((child) => compileToMatch(child, module));
+      const excluded = negatives.map((child) => compileToMatch(child, module));
+      if ([...included, ...excluded].some((child) => child === null)) return null;
+
+      const expression = included.length > 1 ? `(${included.join(' AND ')})` : included[0];
+      return excluded.length > 0
+        ? `(${expression} NOT ${excluded.join(' NOT ')})`
+        : expression;
+    }
+  }
+}
+
+/**
+ * Compile a query tree to a SQL condition on u.rowid using a full-text index,
+ * for queries compileToMatch cannot express as one MATCH expression (a
+ * standalone exclusion). The parts it can express stay MATCH subqueries,
+ * combined with SQL NOT, AND and OR, so the query keeps using the index
+ * (and its normalization or stemming) instead of LIKE.
+ * @param node Query tree, analyzed the same way as the index
+ * @param table Full-text index table
+ * @param module FTS module of the index
+ * @returns SQL condition and bindings
+ */
+export function compileToIndexSql(
+  node: QueryNode,
+  table: string,
+  module: FullTextModule
+): { sql: string; bindings: any[] } {
+  const match = compileToMatch(node, module);
+  // Terms and phrases always compile
+  if (match !== null || node.type === 'term' || node.type === 'phrase') {
+    return {
+      sql: `u.rowid IN (SELECT rowid FROM ${table} WHERE ${table} MATCH ?)`,
+      bindings: [match],
+    };
+  }
+
+  if (node.type === 'not') {
+    const child = compileToIndexSql(node.child, table, module);
+    return { sql: `NOT (${child.sql})`, bindings: child.bindings };
+  }
+
+  const children = node.children.map((child) => compileToIndexSql(child, table, module));
+  return {
+    sql: `(${children.map((c) => c.sql).join(` ${node.type.toUpperCase()} `)})`,
+    bindings: children.flatMap((c) => c.bindings),
+  };
+}
+
+/**
+ * Quote a term or phrase for a MATCH expression
+ * @param value Term or phrase
+ * @param module FTS module
+ * @returns Quoted string
+ */
+function quote(value: string, module: FullTextModule): string {
+  // FTS5 escapes quotes by doubling them; FTS4 has no escape, so drop them
+  return module === 'fts5'
+    ? `"${value.replace(/"/g, '""')}"`
+    : `"${stripQuotes(value)}"`;
+}
+
+/**
+ * Remove double quotes, which FTS4 cannot escape
+ * @param value Term or phrase
+ * @returns Value without quotes
+ */
+function stripQuotes(value: string): string {
+  return value.replace(/"/g, ' ');
+}
@@ -0,0 +1,301 @@
+import type { QueryNode } from '@/types/search';
+
+/**
+ * Error for malformed search queries
+ * Carries the character position the problem was found at
+ */
+export class QueryParseError extends Error {
+  constructor(message: string, public readonly position: number) {
+    super(`${message} (at position ${position + 1})`);
+    this.name = 'QueryParseError';
+  }
+}
+
+type Token =
+  | { type: 'word'; value: string; prefix: boolean; position: number }
+  | { type: 'phrase'; value: string; position: number }
+  | { type: 'and' | 'or' | 'not' | 'minus' | 'lparen' | 'rparen'; position: number }
+  | { type: 'end'; position: number };
+
+/**
+ * Split a query into tokens
+ * @param input Query string
+ * @returns Tokens, ending with an 'end' token
+ */
+function lex(input: string): Token[] {
+  const tokens: Token[] = [];
+  let i = 0;
+
+  while (i < input.length) {
+    const char = input[i];
+
+    if (/\s/.test(char)) {
+      i++;
+      continue;
+    }
+
+    if (char === '(' || char === ')') {
+      tokens.push({ type: char === '(' ? 'lparen' : 'rparen', position: i });
+      i++;
+      continue;
+    }
+
+    if (char === '"') {
+      const end = input.indexOf('"', i + 1);
+      if (end === -1) {
+        throw new QueryParseError('Unterminated phrase, missing closing "', i);
+      }
+      const value = input.slice(i + 1, end).trim().toLowerCase().replace(/\s+/g, ' ');
+      if (!value) {
+        throw new QueryParseError('Empty phrase ""', i);
+      }
+      tokens.push({ type: 'phrase', value, position: i });
+      i = end + 1;
+      continue;
+    }
+
+    // A leading minus excludes the following term or group
+    if (char === '-') {
+      if (i + 1 >= input.length || /\s/.test(input[i + 1])) {
+        throw new QueryParseError('- must be followed directly by a term', i);
+      }
+      tokens.push({ type: 'minus', position: i });
+      i++;
+      continue;
+    }
+
+    // Word: everything up to whitespace, a quote or a parenthesis
+    const start = i;
+    while (i < input.length && !/[\s"()]/.test(input[i])) i++;
+    const word = input.slice(start, i);
+
+    if (word === 'AND' || word === 'OR' || word === 'NOT') {
+      tokens.push({ type: word.toLowerCase() as 'and' | 'or' | 'not', position: start });
+      continue;
+    }
+
+    const prefix = word.endsWith('*');
+    const value = (prefix ? word.slice(0, -1) : word).toLowerCase();
+
+    if (value.includes('*')) {
+      throw new QueryParseError('Wildcard * is only allowed at the end of a word', start);
+    }
+    if (!value) {
+      throw new QueryParseError('Wildcard * needs a word in front of it', start);
+    }
+
+    tokens.push({ type: 'word', value, prefix, position: start });
+  }
+
+  tokens.push({ type: 'end', position: input.length });
+  return tokens;
+}
+
+/**
+ * Merge nested nodes of the same kind, so (a b) c and a b c give the same tree
+ * @param type Node kind
+ * @param children Child nodes
+ * @returns Flattened child nodes
+ */
+function flatten(type: 'and' | 'or', children: QueryNode[]): QueryNode[] {
+  return children.flatMap((child) => (child.type === type ? child.children : [child]));
+}
+
+/**
+ * Recursive descent parser. Precedence from loosest to tightest:
+ * OR, AND (explicit or implied by adjacent terms), NOT / minus.
+ */
+class Parser {
+  private index = 0;
+
+  constructor(private readonly tokens: Token[]) {}
+
+  parse(): QueryNode {
+    const node = this.parseOr();
+    const token = this.peek();
+    if (token.type === 'rparen') {
+      throw new QueryParseError('Unexpected ) without matching (', token.position);
+    }
+    if (token.type !== 'end') {
+      throw new QueryParseError('Unexpected input', token.position);
+    }
+    return node;
+  }
+
+  private peek(): Token {
+    return this.tokens[this.index];
+  }
+
+  private next(): Token {
+    return this.tokens[this.index++];
+  }
+
+  private parseOr(): QueryNode {
+    const children = [this.parseAnd()];
+
+    while (this.peek().type === 'or') {
+      const operator = this.next();
+      if (!this.startsOperand(this.peek())) {
+        throw new QueryParseError('OR needs a term on both sides', operator.position);
+      }
+      children.push(this.parseAnd());
+    }
+
+    return children.length === 1 ? children[0] : { type: 'or', children: flatten('or', children) };
+  }
+
+  private parseAnd(): QueryNode {
+    const first = this.peek();
+    if (!this.startsOperand(first)) {
+      throw this.unexpected(first);
+    }
+
+    const children = [this.parseUnary()];
+
+    while (true) {
+      const token = this.peek();
+      if (token.type === 'and') {
+        this.next();
+        if (!this.startsOperand(this.peek())) {
+          throw new QueryParseError('AND needs a term on both sides', token.position);
+        }
+        children.push(this.parseUnary());
+      } else if (this.startsOperand(token)) {
+        children.push(this.parseUnary());
+      } else {
+        break;
+      }
+    }
+
+    return children.length === 1 ? children[0] : { type: 'and', children: flatten('and', children) };
+  }
+
+  private parseUnary(): QueryNode {
+    const token = this.peek();
+
+    if (token.type === 'minus' || token.type === 'not') {
+      this.next();
+      const operand = this.peek();
+      if (!this.startsOperand(operand) || operand.type === 'minus' || operand.type === 'not') {
+        const operator = token.type === 'minus' ? '-' : 'NOT';
+        throw new QueryParseError(`${operator} must be followed by a term`, token.position);
+      }
+      return { type: 'not', child: this.parseUnary() };
+    }
+
+    return this.parsePrimary();
+  }
+
+  private parsePrimary(): QueryNode {
+    const token = this.next();
+
+    switch (token.type) {
+      case 'word':
+        return { type: 'term', value: token.value, prefix: token.prefix };
+
+      case 'phrase':
+        return { type: 'phrase', value: token.value };
+
+      case 'lparen': {
+        if (this.peek().type === 'rparen') {
+          throw new QueryParseError('Empty parentheses ()', token.position);
+        }
+        const node = this.parseOr();
+        if (this.peek().type !== 'rparen') {
+          throw new QueryParseError('Missing closing )', token.position);
+        }
+        this.next();
+        return node;
+      }
+
+      default:
+        throw this.unexpected(token);
+    }
+  }
+
+  private startsOperand(token: Token): boolean {
+    return ['word', 'phrase', 'lparen', 'minus', 'not'].includes(token.type);
+  }
+
+  private unexpected(token: Token): QueryParseError {
+    switch (token.type) {
+      case 'end':
+        return new QueryParseError('Query ends unexpectedly', token.position);
+      case 'rparen':
+        return new QueryParseError('Unexpected ) without matching (', token.position);
+      case 'or':
+      case 'and':
+        return new QueryParseError(
+          `${token.type.toUpperCase()} needs a term on both sides`,
+          token.position
+        );
+      default:
+        return new QueryParseError('Unexpected input', token.position);
+    }
+  }
+}
+
+/**
+ * Parse a search query.
+ * Supports terms, "exact phrases", OR, AND (implied between terms),
+ * exclusion with -term or NOT term, prefixes with term* and (groups).
+ * Operators must be upper case; lower-case "or" is an ordinary word.
+ * @param query Query string
+ * @returns Query tree, or null if the query is empty
+ * @throws QueryParseError if the query is malformed
+ */
+export function parseQuery(query: string | undefined): QueryNode | null {
+  if (!query || !query.trim()) return null;
+  return new Parser(lex(query)).parse();
+}
+
+/**
+ * Format a query tree back into query syntax.
+ * parseQuery(formatQuery(node)) yields the same tree.
+ * @param node Query tree
+ * @returns Query string
+ */
+export function formatQuery(node: QueryNode): string {
+  switch (node.type) {
+    case 'term':
+      return node.prefix ? `${node.value}*` : node.value;
+    case 'phrase':
+      return `"${node.value}"`;
+    case 'not': {
+      const child = formatQuery(node.child);
+      return node.child.type === 'and' || node.child.type === 'or'
+        ? `-(${child})`
+        : `-${child}`;
+    }
+    case 'and':
+      return node.children
+        .map((child) => (child.type === 'or' ? `(${formatQuery(child)})` : formatQuery(child)))
+        .join(' ');
+    case 'or':
+      return node.children
+        .map((child) => (child.type === 'and' ? `(${formatQuery(child)})` : formatQuery(child)))
+        .join(' OR ');
+  }
+}
+
+/**
+ * Collect the terms and phrases a matching text may contain
+ * (everything that is not excluded)
+ * @param node Query tree
+ * @returns Terms and phrases
+ */
+export function getQueryTerms(node: QueryNode | null): { value: string; prefix: boolean }[] {
+  if (!node) return [];
+
+  switch (node.type) {
+    case 'term':
+      return [{ value: node.value, prefix: node.prefix }];
+    case 'phrase':
+      return [{ value: node.value, prefix: false }];
+    case 'not':
+      return [];
+    case 'and':
+    case 'or':
+      return node.children.flatMap(getQueryTerms);
+  }
+}
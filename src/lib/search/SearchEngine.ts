@@ -1,7 +1,42 @@
 import { databaseManager } from '../database/DatabaseManager';
+import { EXCHANGE_UTTERANCE_TABLE } from '../database/ExchangeIndex';
+import { FULL_TEXT_TABLE, getAnalyzedTable } from '../database/FullTextIndex';
+import { getAvailableYears, manifestLoader } from '../database/ManifestLoader';
+import { getExchangeCount } from '../database/queries';
 import { config } from '../utils/config';
 import { createSnippet } from '../utils/urlHelpers';
-import type { SearchParams, SearchResult } from '@/types/search';
+import { getQueryTerms, parseQuery } from './QueryParser';
+import { compileToIndexSql, compileToMatch, compileToSql } from './QueryCompiler';
+import { getSpellingRules } from './SpellingNormalizer';
+import { TextAnalyzer, type VariantMatch } from './TextAnalyzer';
+import type { FullTextModule } from '@/types/database';
+import type {
+  FacetCount,
+  MatchCriteria,
+  MatchPosition,
+  MatchTarget,
+  QueryNode,
+  SearchParams,
+  SearchResult,
+  SearchFacets,
+  SearchResultPage,
+  YearSearchProgress,
+} from '@/types/search';
+import type { YearRange } from '@/types/app';
+
+// How the free-text query of a search is run against a database
+interface QueryPlan {
+  ast: QueryNode | null;
+  fullText: FullTextModule | null;
+  // MATCH expression, or null if FTS cannot express the query as one
+  match: string | null;
+  // Condition using the index when match is null; LIKE on u.content when null as well
+  filter: { sql: string; bindings: any[] } | null;
+  // Index table the MATCH expression is for
+  table: string;
+  // Set when matching normalized spellings or stems
+  analyzer: TextAnalyzer | null;
+}
 
 /**
  * Search Engine
@@ -11,38 +46,49 @@ export class SearchEngine {
   /**
    * Search utterances in a database
    * @param params Search parameters
+   * @param signal Optional abort signal to cancel a running search
+   * @param limit Maximum number of results
+   * @param offset Results to skip, by default those of the pages before params.page
    * @returns Array of search results
    */
-  async search(params: SearchParams): Promise<SearchResult[]> {
-    const { year, query } = params;
+  async search(
+    params: SearchParams,
+    signal?: AbortSignal,
+    limit: number = config.maxSearchResults,
+    offset?: number
+  ): Promise<SearchResult[]> {
+    const { year } = params;
 
-    // Build SQL query
-    const { sql, bindings } = this.buildQuery(params);
+    // Build SQL query for the index the year's database has
+    const plan = await this.planQuery(params);
+    const { sql, bindings } = this.buildQuery(params, plan, limit, offset);
+    const terms = getQueryTerms(plan.ast);
+    // Without the analyzed index, words match case-insensitively like the full-text index
+    const analyzer = plan.analyzer ?? new TextAnalyzer({ rules: null, stem: false });
 
     // Execute query
-    const results = await databaseManager.executeQuery(year, sql, bindings);
+    const results = await databaseManager.executeQuery(year, sql, bindings, signal);
 
     // Map results
     const searchResults: SearchResult[] = results.map((row) => {
-      const result: SearchResult = {
-        id: row.id,
-        content: row.content,
-        prev: row.prev || null,
-        next: row.next || null,
-        person_id: row.person_id,
-        year: row.year,
-        date: row.date,
-        kvinna_1: Boolean(row.kvinna_1),
-        kvinna_2: Boolean(row.kvinna_2),
-        kvinna_3: Boolean(row.kvinna_3),
-        person_name: row.person_name,
-        person_gender: row.person_gender || null,
-        person_party: row.person_party || null,
-      };
+      const result = this.mapRow(row);
+
+      if (row.relevance !== undefined && row.relevance !== null) {
+        result.relevance = -row.relevance;
+      }
 
-      // Add snippet if query exists
-      if (query) {
-        result.snippet = createSnippet(row.content, query, 100);
+      if (terms.length > 0) {
+        // Add snippet around the passages where the query's words cluster
+        const matches = analyzer.findMatches(row.content, terms);
+        if (plan.analyzer) {
+          result.matchedVariants = [...new Set(matches.map((match) => match.text))];
+        }
+        result.snippet = createSnippet(
+          row.content,
+          matches,
+          config.snippetContextLength,
+          config.snippetFragments
+        );
       }
 
       return result;
@@ -51,13 +97,480 @@ export class SearchEngine {
     return searchResults;
   }
 
+  /**
+   * Get one page of search results with the total number of matches.
+   * Date-ordered pages continue from params.after when it is given
+   * (keyset pagination), otherwise the page is found by offset.
+   * @param params Search parameters (params.page defaults to 1)
+   * @param signal Optional abort signal to cancel a running search
+   * @returns Page of results
+   */
+  async searchPage(params: SearchParams, signal?: AbortSignal): Promise<SearchResultPage> {
+    const pageSize = config.searchPageSize;
+    const total = await this.count(params, signal);
+    const pageCount = Math.max(1, Math.ceil(total / pageSize));
+    const page = Math.min(Math.max(1, params.page ?? 1), pageCount);
+
+    const results = total > 0
+      ? await this.search({ ...params, page }, signal, pageSize)
+      : [];
+
+    const last = results[results.length - 1];
+    // Unranked results are always in (date, id) order
+    const dateOrdered =
+      params.sort === 'date' || results.every((result) => result.relevance === undefined);
+
+    return {
+      results,
+      total,
+      page,
+      pageCount,
+      nextCursor: dateOrdered && last && page < pageCount
+        ? { date: last.date, id: last.id }
+        : null,
+    };
+  }
+
+  /**
+   * Count the matching utterances per party, gender, speaker and month.
+   * Each facet is counted without its own filter, so selecting one value
+   * still shows the counts of the others.
+   * @param params Search parameters
+   * @param signal Optional abort signal to cancel the queries
+   * @returns Facet counts
+   */
+  async facets(params: SearchParams, signal?: AbortSignal): Promise<SearchFacets> {
+    const plan = await this.planQuery(params);
+
+    const run = async (
+      facetParams: SearchParams,
+      select: string,
+      groupBy: string,
+      orderBy: string,
+      limit?: number
+    ) => {
+      const { where, bindings } = this.buildWhere(facetParams, plan);
+      const sql = `
+        SELECT ${select}, COUNT(*) as count
+        ${this.buildFrom(plan.match !== null ? plan.table : null)}
+        ${where}
+        GROUP BY ${groupBy}
+        ORDER BY ${orderBy}
+        ${limit ? `LIMIT ${limit}` : ''}
+      `;
+      return databaseManager.executeQuery(params.year, sql, bindings, signal);
+    };
+
+    const parties = await run(
+      { ...params, party: undefined },
+      'p.party as value',
+      'p.party',
+      'count DESC, value'
+    );
+    const genders = await run(
+      { ...params, gender: undefined },
+      'LOWER(p.gender) as value',
+      'LOWER(p.gender)',
+      'count DESC, value'
+    );
+    const speakers = await run(
+      { ...params, speaker: undefined },
+      'p.id as value, p.name as name, p.party as party',
+      'p.id',
+      'count DESC, name',
+      config.facetSpeakerLimit
+    );
+    const months = await run(
+      { ...params, dateFrom: undefined, dateTo: undefined },
+      'u.date / 100 as value',
+      'u.date / 100',
+      'value'
+    );
+
+    // Utterances without a party or gender are not filterable
+    return {
+      party: parties.filter((row) => row.value),
+      gender: genders.filter((row) => row.value),
+      speaker: speakers,
+      month: months,
+    };
+  }
+
+  /**
+   * Add up the facet counts of several years, e.g. of a year-range search.
+   * Speakers are ranked among each year's top speakers only.
+   * @param yearFacets Facet counts of each year
+   * @returns Facet counts of all the years, ordered like those of one year
+   */
+  mergeFacets(yearFacets: SearchFacets[]): SearchFacets {
+    const sum = <F extends FacetCount<string | number>>(lists: F[][]): F[] => {
+      const totals = new Map<string | number, F>();
+      for (const row of lists.flat()) {
+        const total = totals.get(row.value);
+        totals.set(row.value, total ? { ...total, count: total.count + row.count } : { ...row });
+      }
+      return Array.from(totals.values());
+    };
+
+    return {
+      party: sum(yearFacets.map((facets) => facets.party)).sort(
+        (a, b) => b.count - a.count || a.value.localeCompare(b.value)
+      ),
+      gender: sum(yearFacets.map((facets) => facets.gender)).sort(
+        (a, b) => b.count - a.count || a.value.localeCompare(b.value)
+      ),
+      speaker: sum(yearFacets.map((facets) => facets.speaker))
+        .sort((a, b) => b.count - a.count || a.name.localeCompare(b.name))
+        .slice(0, config.facetSpeakerLimit),
+      month: sum(yearFacets.map((facets) => facets.month)).sort((a, b) => a.value - b.value),
+    };
+  }
+
+  /**
+   * Count all utterances matching the search parameters
+   * @param params Search parameters
+   * @param signal Optional abort signal to cancel a running count
+   * @returns Number of matching utterances
+   */
+  async count(params: SearchParams, signal?: AbortSignal): Promise<number> {
+    const plan = await this.planQuery(params);
+    const { sql, bindings } = this.buildCountQuery(params, plan);
+    const results = await databaseManager.executeQuery(params.year, sql, bindings, signal);
+    return results.length > 0 ? results[0].count : 0;
+  }
+
+  /**
+   * Get one page of search results across a range of years, searching one
+   * yearly database at a time. Years are visited in order so results stay
+   * sorted by date, and only one extra database is opened at a time, leaving
+   * eviction to the worker's memory-budgeted LRU. Every year is counted (and
+   * its facets counted); a page is the slice of the years' matches, one after
+   * the other, at its offset, so only the years it overlaps are searched.
+   * Results are always sorted by date: relevance scores are relative to the
+   * database they come from (its document count and average length), so
+   * they cannot rank results of different years against each other.
+   * @param params Search parameters (year is taken from the range; params.page defaults to 1)
+   * @param range First and last year to search
+   * @param onProgress Called whenever a year changes state; includes its part of the page once done
+   * @param signal Optional abort signal to cancel the search
+   * @returns Page of results of all years
+   */
+  async searchYears(
+    params: Omit<SearchParams, 'year'>,
+    range: YearRange,
+    onProgress: (progress: YearSearchProgress) => void,
+    signal?: AbortSignal
+  ): Promise<SearchResultPage> {
+    const available = getAvailableYears(await manifestLoader.load());
+    const years = available.filter(
+      (year) => year >= range.start && year <= range.end
+    );
+    const pageSize = config.searchPageSize;
+    const page = Math.max(1, params.page ?? 1);
+    const pageStart = (page - 1) * pageSize;
+    const merged: SearchResult[] = [];
+    let total = 0; // Matches of the years searched so far
+
+    years.forEach((year) =>
+      onProgress({ year, state: 'pending', progress: 0, hitCount: 0, results: [] })
+    );
+
+    for (const year of years) {
+      if (signal?.aborted) {
+        throw new DOMException('Search cancelled', 'AbortError');
+      }
+
+      const yearParams: SearchParams = {
+        ...params,
+        year,
+        sort: 'date',
+        page: undefined,
+        after: undefined,
+      };
+
+      try {
+        onProgress({ year, state: 'loading', progress: 0, hitCount: 0, results: [] });
+        await databaseManager.loadDatabase(year, (progress) => {
+          if (progress.stage !== 'download') return;
+          onProgress({
+            year,
+            state: 'loading',
+            progress: progress.percentage,
+            hitCount: 0,
+            results: [],
+          });
+        }, signal);
+
+        onProgress({ year, state: 'searching', progress: 100, hitCount: 0, results: [] });
+        const hitCount = await this.count(yearParams, signal);
+        // The part of the page among this year's matches
+        const start = Math.max(0, pageStart - total);
+        const end = Math.min(hitCount, pageStart + pageSize - total);
+        const results =
+          end > start ? await this.search(yearParams, signal, end - start, start) : [];
+        const facets = hitCount > 0 ? await this.facets(yearParams, signal) : undefined;
+
+        total += hitCount;
+        merged.push(...results);
+        onProgress({ year, state: 'done', progress: 100, hitCount, results, facets });
+      } catch (error) {
+        if (error instanceof DOMException && error.name === 'AbortError') {
+          throw error;
+        }
+        onProgress({
+          year,
+          state: 'error',
+          progress: 0,
+          hitCount: 0,
+          results: [],
+          error: error instanceof Error ? error.message : 'Search failed',
+        });
+      }
+    }
+
+    return {
+      results: merged,
+      total,
+      page,
+      pageCount: Math.max(1, Math.ceil(total / pageSize)),
+      nextCursor: null,
+    };
+  }
+
+  /**
+   * Find the match of a search before or after an utterance, in reading
+   * order: by exchange and position in it from the exchange index, or by
+   * (date, id) like date-sorted results in databases without one (lazy
+   * loading). Continues into earlier or later years when the utterance's year
+   * has no more; or finds the first or last match of all years. Years whose
+   * database cannot be loaded are skipped.
+   * @param criteria What the search matches
+   * @param target Which match to find
+   * @param from Utterance to start from, needed for 'previous' and 'next'
+   * @param signal Optional abort signal to cancel the search
+   * @returns The match, or null if there is none
+   */
+  async findMatch(
+    criteria: MatchCriteria,
+    target: MatchTarget,
+    from?: MatchPosition,
+    signal?: AbortSignal
+  ): Promise<SearchResult | null> {
+    const backwards = target === 'previous' || target === 'last';
+    const relative = target === 'previous' || target === 'next';
+    if (relative && !from) {
+      throw new Error(`Finding the ${target} match needs an utterance to start from`);
+    }
+
+    const available = getAvailableYears(await manifestLoader.load());
+    const years = available.filter((year) =>
+      !relative || (backwards ? year <= from!.year : year >= from!.year)
+    );
+    if (backwards) years.reverse();
+
+    for (const year of years) {
+      if (signal?.aborted) {
+        throw new DOMException('Search cancelled', 'AbortError');
+      }
+
+      try {
+        const match = await this.findMatchInYear(
+          { ...criteria, year },
+          backwards,
+          relative && year === from!.year ? from : undefined,
+          signal
+        );
+        if (match) return match;
+      } catch (error) {
+        if (error instanceof DOMException && error.name === 'AbortError') {
+          throw error;
+        }
+        console.warn(`Skipping year ${year} while looking for the ${target} match:`, error);
+      }
+    }
+
+    return null;
+  }
+
+  /**
+   * Create a function that finds the words a search's query matches in a
+   * text, analyzed the way the search is (spelling variants, inflections)
+   * @param criteria What the search matches
+   * @returns Highlighter, or null if the search has no (valid) query
+   */
+  createHighlighter(criteria: MatchCriteria): ((text: string) => VariantMatch[]) | null {
+    let ast: QueryNode | null;
+    try {
+      ast = parseQuery(criteria.query);
+    } catch {
+      return null;
+    }
+    const terms = getQueryTerms(ast);
+    if (terms.length === 0) return null;
+
+    // Without normalizing or stemming, words match case-insensitively like the full-text index
+    const analyzer = new TextAnalyzer({
+      rules: criteria.normalize ? getSpellingRules() : null,
+      stem: Boolean(criteria.stem),
+    });
+    return (text) => analyzer.findMatches(text, terms);
+  }
+
+  /**
+   * Find which of some utterances of a year match a search in full: its
+   * query as well as its filters (party, speaker, gender, dates, kvinna tags)
+   * @param criteria What the search matches
+   * @param year Year of the utterances
+   * @param ids IDs of the utterances
+   * @param signal Optional abort signal to cancel the query
+   * @returns IDs of the matching utterances
+   */
+  async findMatching(
+    criteria: MatchCriteria,
+    year: number,
+    ids: string[],
+    signal?: AbortSignal
+  ): Promise<Set<string>> {
+    if (ids.length === 0) return new Set();
+
+    const params: SearchParams = { ...criteria, year };
+    const plan = await this.planQuery(params);
+    const { where, bindings } = this.buildWhere(params, plan);
+    const placeholders = ids.map(() => '?').join(', ');
+    const sql = `
+      SELECT u.id
+      ${this.buildFrom(plan.match !== null ? plan.table : null)}
+      ${where} AND u.id IN (${placeholders})
+    `;
+
+    const results = await databaseManager.executeQuery(year, sql, [...bindings, ...ids], signal);
+    return new Set(results.map((row) => String(row.id)));
+  }
+
+  /**
+   * Find the first or last match of a search in one year, in reading order
+   * (see findMatch)
+   * @param params Search parameters
+   * @param backwards Find the last match (before the bound) instead of the first
+   * @param bound Only look past this utterance
+   * @param signal Optional abort signal to cancel the query
+   * @returns The match, or null if the year has none
+   */
+  private async findMatchInYear(
+    params: SearchParams,
+    backwards: boolean,
+    bound?: MatchPosition,
+    signal?: AbortSignal
+  ): Promise<SearchResult | null> {
+    const plan = await this.planQuery(params);
+    const { where, bindings } = this.buildWhere(params, plan);
+    const indexed = (await getExchangeCount(params.year)) !== null;
+    const op = backwards ? '<' : '>';
+    const order = backwards ? 'DESC' : 'ASC';
+
+    let join = '';
+    let keyset = '';
+    let orderBy = `u.date ${order}, u.id ${order}`;
+    if (indexed) {
+      join = `JOIN ${EXCHANGE_UTTERANCE_TABLE} eu ON eu.utterance_id = u.id`;
+      orderBy = `eu.exchange ${order}, eu.position ${order}`;
+      if (bound) {
+        keyset = ` AND (eu.exchange, eu.position) ${op} (
+          SELECT exchange, position FROM ${EXCHANGE_UTTERANCE_TABLE} WHERE utterance_id = ?
+        )`;
+        bindings.push(bound.id);
+      }
+    } else if (bound) {
+      keyset = ` AND (u.date ${op} ? OR (u.date = ? AND u.id ${op} ?))`;
+      bindings.push(bound.date, bound.date, bound.id);
+    }
+
+    const sql = `
+      SELECT
+        u.*,
+        p.name as person_name,
+        p.gender as person_gender,
+        p.party as person_party
+      ${this.buildFrom(plan.match !== null ? plan.table : null)}
+      ${join}
+      ${where}${keyset}
+      ORDER BY ${orderBy}
+      LIMIT 1
+    `;
+
+    const results = await databaseManager.executeQuery(params.year, sql, bindings, signal);
+    return results.length > 0 ? this.mapRow(results[0]) : null;
+  }
+
+  /**
+   * Decide how to run the free-text query against a year's database.
+   * With params.normalize or params.stem the query is analyzed the same way
+   * as an analyzed index and matched against it; databases without one
+   * (lazy loading) fall back to the original text. Queries one MATCH cannot
+   * express (a standalone exclusion) still use the index, through subqueries,
+   * and are ordered by date since they have no relevance.
+   * @param params Search parameters
+   * @returns Query plan
+   */
+  private async planQuery(params: SearchParams): Promise<QueryPlan> {
+    const { fullText } = await databaseManager.loadDatabase(params.year);
+    const ast = parseQuery(params.query);
+
+    if (ast && fullText && (params.normalize || params.stem)) {
+      const options = {
+        rules: params.normalize ? getSpellingRules() : null,
+        stem: Boolean(params.stem),
+      };
+      if (await databaseManager.ensureAnalyzedIndex(params.year, options)) {
+        const analyzer = new TextAnalyzer(options);
+        const analyzed = analyzer.analyzeQuery(ast);
+        const table = getAnalyzedTable(options);
+        const match = compileToMatch(analyzed, fullText);
+        const filter = match ? null : compileToIndexSql(analyzed, table, fullText);
+        return { ast, fullText, match, filter, table, analyzer };
+      }
+    }
+
+    const match = ast && fullText ? compileToMatch(ast, fullText) : null;
+    return {
+      ast,
+      fullText,
+      match,
+      filter: ast && fullText && !match ? compileToIndexSql(ast, FULL_TEXT_TABLE, fullText) : null,
+      table: FULL_TEXT_TABLE,
+      analyzer: null,
+    };
+  }
+
   /**
    * Build SQL query from search parameters
    * @param params Search parameters
+   * @param plan How to run the free-text query
+   * @param limit Maximum number of rows
+   * @param offset Rows to skip, by default those of the pages before params.page
    * @returns SQL query and bindings
    */
-  private buildQuery(params: SearchParams): { sql: string; bindings: any[] } {
-    const { query, party, gender, speaker, kvinna_1, kvinna_2, kvinna_3, dateFrom, dateTo } = params;
+  private buildQuery(
+    params: SearchParams,
+    plan: QueryPlan,
+    limit: number = config.maxSearchResults,
+    offset: number = ((params.page ?? 1) - 1) * limit
+  ): { sql: string; bindings: any[] } {
+    const { where, bindings } = this.buildWhere(params, plan);
+    const ranked = plan.match !== null;
+    const byRelevance = ranked && params.sort !== 'date';
+
+    // Continue after the previous page's last result instead of skipping rows
+    let keyset = '';
+    if (!byRelevance && params.after) {
+      keyset = ` AND (u.date > ? OR (u.date = ? AND u.id > ?))`;
+      bindings.push(params.after.date, params.after.date, params.after.id);
+    }
+
+    // bm25() is lower for better matches
+    const rank = plan.fullText === 'fts5'
+      ? `bm25(${plan.table})`
+      : `bm25(matchinfo(${plan.table}, 'pcnalx'))`;
 
     let sql = `
       SELECT
@@ -65,21 +578,97 @@ export class SearchEngine {
         p.name as person_name,
         p.gender as person_gender,
         p.party as person_party
-      FROM utterance u
+        ${ranked ? `, ${rank} as relevance` : ''}
+      ${this.buildFrom(ranked ? plan.table : null)}
+      ${where}${keyset}
+    `;
+
+    // Order by relevance or date
+    if (byRelevance) {
+      sql += ` ORDER BY relevance ASC, u.date ASC, u.id ASC`;
+    } else {
+      sql += ` ORDER BY u.date ASC, u.id ASC`;
+    }
+
+    // Limit results
+    sql += ` LIMIT ${limit}`;
+    if (!keyset && offset > 0) {
+      sql += ` OFFSET ${offset}`;
+    }
+
+    return { sql, bindings };
+  }
+
+  /**
+   * Build SQL count query from search parameters
+   * @param params Search parameters
+   * @param plan How to run the free-text query
+   * @returns SQL query and bindings
+   */
+  private buildCountQuery(
+    params: SearchParams,
+    plan: QueryPlan
+  ): { sql: string; bindings: any[] } {
+    const { where, bindings } = this.buildWhere(params, plan);
+
+    const sql = `
+      SELECT COUNT(*) as count
+      ${this.buildFrom(plan.match !== null ? plan.table : null)}
+      ${where}
+    `;
+
+    return { sql, bindings };
+  }
+
+  /**
+   * Build FROM clause
+   * @param table Full-text index table to join, if any
+   * @returns FROM clause
+   */
+  private buildFrom(table: string | null): string {
+    if (!table) {
+      return `
+        FROM utterance u
+        JOIN person p ON u.person_id = p.id
+      `;
+    }
+
+    // The index table must not be aliased for MATCH, bm25() and matchinfo()
+    return `
+      FROM ${table}
+      JOIN utterance u ON u.rowid = ${table}.rowid
       JOIN person p ON u.person_id = p.id
-      WHERE 1=1
     `;
+  }
+
+  /**
+   * Build WHERE clause from search parameters
+   * @param params Search parameters
+   * @param plan How to run the free-text query
+   * @returns WHERE clause and bindings
+   */
+  private buildWhere(
+    params: SearchParams,
+    plan: QueryPlan
+  ): { where: string; bindings: any[] } {
+    const { party, gender, speaker, kvinna, kvinna_1, kvinna_2, kvinna_3, dateFrom, dateTo } = params;
+
+    let sql = `WHERE 1=1`;
 
     const bindings: any[] = [];
 
-    // Freetext search using LIKE
-    if (query && query.trim()) {
-      const tokens = this.tokenize(query);
-      if (tokens.length > 0) {
-        const likeConditions = tokens.map(() => 'u.content LIKE ?').join(' AND ');
-        sql += ` AND (${likeConditions})`;
-        bindings.push(...tokens.map((t) => `%${t}%`));
-      }
+    // Freetext search using the full-text index, or LIKE when the database has no index
+    const { ast, match, filter, table } = plan;
+    if (match) {
+      sql += ` AND ${table} MATCH ?`;
+      bindings.push(match);
+    } else if (filter) {
+      sql += ` AND ${filter.sql}`;
+      bindings.push(...filter.bindings);
+    } else if (ast) {
+      const condition = compileToSql(ast);
+      sql += ` AND ${condition.sql}`;
+      bindings.push(...condition.bindings);
     }
 
     // Party filter
@@ -90,9 +679,11 @@ export class SearchEngine {
     }
 
     // Gender filter
-    if (gender) {
-      sql += ` AND LOWER(p.gender) = LOWER(?)`;
-      bindings.push(gender);
+    const genders = gender === undefined ? [] : [gender].flat();
+    if (genders.length > 0) {
+      const placeholders = genders.map(() => 'LOWER(?)').join(',');
+      sql += ` AND LOWER(p.gender) IN (${placeholders})`;
+      bindings.push(...genders);
     }
 
     // Speaker filter
@@ -101,6 +692,13 @@ export class SearchEngine {
       bindings.push(speaker);
     }
 
+    // Any kvinna tag filter
+    if (kvinna !== undefined) {
+      sql += kvinna
+        ? ` AND (u.kvinna_1 = 1 OR u.kvinna_2 = 1 OR u.kvinna_3 = 1)`
+        : ` AND u.kvinna_1 = 0 AND u.kvinna_2 = 0 AND u.kvinna_3 = 0`;
+    }
+
     // kvinna_1 filter
     if (kvinna_1 !== undefined) {
       sql += ` AND u.kvinna_1 = ?`;
@@ -130,26 +728,30 @@ export class SearchEngine {
       bindings.push(dateTo);
     }
 
-    // Order by date
-    sql += ` ORDER BY u.date ASC, u.id ASC`;
-
-    // Limit results
-    sql += ` LIMIT ${config.maxSearchResults}`;
-
-    return { sql, bindings };
+    return { where: sql, bindings };
   }
 
   /**
-   * Tokenize search query
-   * @param query Search query
-   * @returns Array of tokens
+   * Map a database row to a search result
+   * @param row Raw database row
+   * @returns Search result without relevance or snippet
    */
-  private tokenize(query: string): string[] {
-    return query
-      .toLowerCase()
-      .trim()
-      .split(/\s+/)
-      .filter((token) => token.length > 0);
+  private mapRow(row: any): SearchResult {
+    return {
+      id: row.id,
+      content: row.content,
+      prev: row.prev || null,
+      next: row.next || null,
+      person_id: row.person_id,
+      year: row.year,
+      date: row.date,
+      kvinna_1: Boolean(row.kvinna_1),
+      kvinna_2: Boolean(row.kvinna_2),
+      kvinna_3: Boolean(row.kvinna_3),
+      person_name: row.person_name,
+      person_gender: row.person_gender || null,
+      person_party: row.person_party || null,
+    };
   }
 }
 
@@ -0,0 +1,102 @@
+import spellingRulesConfig from '@/config/spellingRules.json';
+import { config } from '../utils/config';
+
+// A spelling rule, applied to each lower-cased word in order.
+// pattern is a regular expression; ^ and $ anchor to the word boundaries.
+export interface SpellingRule {
+  pattern: string;
+  replacement: string;
+  description?: string;
+}
+
+/**
+ * Get the built-in rules for pre-1906 orthography
+ * @returns Default rules
+ */
+export function getDefaultSpellingRules(): SpellingRule[] {
+  return spellingRulesConfig.rules;
+}
+
+/**
+ * Get the rules added by the user (stored in localStorage)
+ * @returns User rules
+ */
+export function getUserSpellingRules(): SpellingRule[] {
+  try {
+    const stored = localStorage.getItem(config.spellingRulesStorageKey);
+    return stored ? (JSON.parse(stored) as SpellingRule[]) : [];
+  } catch (error) {
+    console.warn('Failed to read user spelling rules:', error);
+    return [];
+  }
+}
+
+/**
+ * Store the rules added by the user
+ * @param rules User rules
+ */
+export function saveUserSpellingRules(rules: SpellingRule[]): void {
+  localStorage.setItem(config.spellingRulesStorageKey, JSON.stringify(rules));
+}
+
+/**
+ * Get all active rules: the defaults followed by the user's own
+ * @returns Active rules
+ */
+export function getSpellingRules(): SpellingRule[] {
+  return [...getDefaultSpellingRules(), ...getUserSpellingRules()];
+}
+
+/**
+ * Check that a rule's pattern is a valid regular expression
+ * @param rule Spelling rule
+ * @returns Error message or null if valid
+ */
+export function validateSpellingRule(rule: SpellingRule): string | null {
+  if (!rule.pattern) return 'Pattern is empty';
+  try {
+    new RegExp(rule.pattern, 'u');
+    return null;
+  } catch (error) {
+    return error instanceof Error ? error.message : 'Invalid pattern';
+  }
+}
+
+/**
+ * Identify a rule set, so an index built with other rules can be detected
+ * @param rules Spelling rules
+ * @returns Key for the rule set
+ */
+export function getSpellingRulesKey(rules: SpellingRule[]): string {
+  return JSON.stringify(rules.map((rule) => [rule.pattern, rule.replacement]));
+}
+
+/**
+ * Spelling Normalizer
+ * Maps historical spelling variants to a canonical (modern) form,
+ * word by word, so "qvinna" and "kvinna" normalize the same way
+ */
+export class SpellingNormalizer {
+  private readonly compiled: { regex: RegExp; replacement: string }[];
+
+  constructor(rules: SpellingRule[]) {
+    this.compiled = rules
+      .filter((rule) => validateSpellingRule(rule) === null)
+      .map((rule) => ({
+        regex: new RegExp(rule.pattern, 'gu'),
+        replacement: rule.replacement,
+      }));
+  }
+
+  /**
+   * Normalize a single word
+   * @param word Word
+   * @returns Canonical lower-case form
+   */
+  normalizeWord(word: string): string {
+    return this.compiled.reduce(
+      (current, rule) => current.replace(rule.regex, rule.replacement),
+      word.toLowerCase()
+    );
+  }
+}
@@ -0,0 +1,86 @@
+import stopwordsConfig from '@/config/stopwords.json';
+
+const VOWELS = 'aeiouyäåö';
+
+// Letters an -s may follow for it to be removed as an ending
+const S_ENDING = 'bcdfghjklmnoprtvy';
+
+// Step 1 endings, longest first so the longest match wins
+const STEP1_SUFFIXES = [
+  'heterna', 'hetens', 'anden', 'heten', 'heter', 'arnas', 'ernas', 'ornas',
+  'andes', 'arens', 'andet', 'arna', 'erna', 'orna', 'ande', 'arne', 'aste',
+  'aren', 'ades', 'erns', 'ade', 'are', 'ern', 'ens', 'het', 'ast',
+  'ad', 'en', 'ar', 'er', 'or', 'as', 'es', 'at', 'a', 'e',
+];
+
+const STEP2_SUFFIXES = ['dd', 'gd', 'nn', 'dt', 'gt', 'kt', 'tt'];
+
+const STOPWORDS = new Set(stopwordsConfig.words);
+
+/**
+ * Find the start of region R1: after the first non-vowel that follows a vowel,
+ * but at least three letters into the word
+ * @param word Lower-case word
+ * @returns Index where R1 starts
+ */
+function findR1(word: string): number {
+  for (let i = 1; i < word.length; i++) {
+    if (!VOWELS.includes(word[i]) && VOWELS.includes(word[i - 1])) {
+      return Math.max(3, i + 1);
+    }
+  }
+  return word.length;
+}
+
+/**
+ * Stem a Swedish word with the Snowball algorithm, so inflected forms
+ * share a stem (riksdagen, riksdagens, riksdagar → riksdag)
+ * @param word Lower-case word
+ * @returns Stem
+ */
+export function stemSwedish(word: string): string {
+  const r1 = findR1(word);
+  let stem = word;
+
+  // Step 1: remove inflectional endings
+  const suffix = STEP1_SUFFIXES.find(
+    (ending) => stem.endsWith(ending) && stem.length - ending.length >= r1
+  );
+  if (suffix) {
+    stem = stem.slice(0, -suffix.length);
+  } else if (
+    stem.endsWith('s') &&
+    stem.length - 1 >= r1 &&
+    S_ENDING.includes(stem[stem.length - 2])
+  ) {
+    stem = stem.slice(0, -1);
+  }
+
+  // Step 2: undouble consonant endings
+  if (STEP2_SUFFIXES.some((ending) => stem.endsWith(ending) && stem.length - 2 >= r1)) {
+    stem = stem.slice(0, -1);
+  }
+
+  // Step 3: remove derivational endings
+  if (stem.endsWith('fullt') && stem.length - 5 >= r1) {
+    stem = stem.slice(0, -1);
+  } else if (stem.endsWith('löst') && stem.length - 4 >= r1) {
+    stem = stem.slice(0, -1);
+  } else {
+    const derivational = ['lig', 'els', 'ig'].find(
+      (ending) => stem.endsWith(ending) && stem.length - ending.length >= r1
+    );
+    if (derivational) stem = stem.slice(0, -derivational.length);
+  }
+
+  return stem;
+}
+
+/**
+ * Check whether a word is too common to be useful for ranking
+ * @param word Lower-case word
+ * @returns true for stopwords such as "och" and "att"
+ */
+export function isSwedishStopword(word: string): boolean {
+  return STOPWORDS.has(word);
+}
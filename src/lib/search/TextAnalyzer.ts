@@ -0,0 +1,146 @@
+import { SpellingNormalizer, getSpellingRulesKey, type SpellingRule } from './SpellingNormalizer';
+import { isSwedishStopword, stemSwedish } from './SwedishStemmer';
+import type { QueryNode } from '@/types/search';
+
+// What an analyzed index does to each word (plain data, so it can be sent to the worker)
+export interface AnalyzerOptions {
+  rules: SpellingRule[] | null; // Spelling rules to normalize with, or null for none
+  stem: boolean; // Reduce words to their Swedish stem
+}
+
+// A span of the original text whose analyzed form matched a query term
+export interface VariantMatch {
+  start: number;
+  end: number;
+  text: string;
+}
+
+// Words as the analyzer sees them (letters and digits)
+const WORD_PATTERN = /[\p{L}\p{N}]+/gu;
+
+/**
+ * Text Analyzer
+ * Turns text into the words an analyzed index stores: lower-cased,
+ * optionally spelling-normalized and stemmed. The same analysis is applied
+ * to queries, so "qvinnornas" finds "kvinnor".
+ */
+export class TextAnalyzer {
+  private readonly normalizer: SpellingNormalizer | null;
+
+  constructor(readonly options: AnalyzerOptions) {
+    this.normalizer = options.rules ? new SpellingNormalizer(options.rules) : null;
+  }
+
+  /**
+   * Identify the analysis, so an index built with other options can be detected
+   */
+  get key(): string {
+    return JSON.stringify([
+      this.options.rules ? getSpellingRulesKey(this.options.rules) : null,
+      this.options.stem,
+    ]);
+  }
+
+  /**
+   * Analyze a single word
+   * @param word Word
+   * @returns Indexed form
+   */
+  analyzeWord(word: string): string {
+    const normalized = this.normalizeWord(word);
+    return this.options.stem ? stemSwedish(normalized) : normalized;
+  }
+
+  /**
+   * Analyze a text to its indexed words separated by spaces
+   * @param text Text
+   * @returns Analyzed text
+   */
+  analyzeText(text: string): string {
+    return Array.from(text.matchAll(WORD_PATTERN), (match) =>
+      this.analyzeWord(match[0])
+    ).join(' ');
+  }
+
+  /**
+   * Analyze the terms and phrases of a query tree.
+   * When stemming, stopwords are dropped from groups that have other terms,
+   * so "och" or "att" do not weigh in the ranking.
+   * @param node Query tree
+   * @returns Query tree with analyzed values
+   */
+  analyzeQuery(node: QueryNode): QueryNode {
+    switch (node.type) {
+      case 'term':
+      case 'phrase':
+        return { ...node, value: this.analyzeText(node.value) };
+      case 'not':
+        return { type: 'not', child: this.analyzeQuery(node.child) };
+      case 'or':
+        return { type: 'or', children: node.children.map((child) => this.analyzeQuery(child)) };
+      case 'and': {
+        const children = this.options.stem ? this.removeStopwords(node.children) : node.children;
+        return children.length === 1
+          ? this.analyzeQuery(children[0])
+          : { type: 'and', children: children.map((child) => this.analyzeQuery(child)) };
+      }
+    }
+  }
+
+  /**
+   * Find the words of the original text whose analyzed form matches a term
+   * (phrases match word by word)
+   * @param text Original text
+   * @param terms Query terms
+   * @returns Matching spans of the original text, in text order
+   */
+  findMatches(text: string, terms: { value: string; prefix: boolean }[]): VariantMatch[] {
+    const words = terms.flatMap((term) => {
+      const parts = this.analyzeText(term.value).split(' ').filter(Boolean);
+      return parts.map((part, index) => ({
+        value: part,
+        // Only the last word of a prefix term is a prefix
+        prefix: term.prefix && index === parts.length - 1,
+      }));
+    });
+    if (words.length === 0) return [];
+
+    const matches: VariantMatch[] = [];
+    for (const match of text.matchAll(WORD_PATTERN)) {
+      const analyzed = this.analyzeWord(match[0]);
+      const matched = words.some((word) =>
+        word.prefix ? analyzed.startsWith(word.value) : analyzed === word.value
+      );
+      if (matched && match.index !== undefined) {
+        matches.push({
+          start: match.index,
+          end: match.index + match[0].length,
+          text: match[0],
+        });
+      }
+    }
+    return matches;
+  }
+
+  /**
+   * Lower-case and spelling-normalize a word, without stemming
+   * @param word Word
+   * @returns Normalized word
+   */
+  private normalizeWord(word: string): string {
+    return this.normalizer ? this.normalizer.normalizeWord(word) : word.toLowerCase();
+  }
+
+  /**
+   * Drop plain stopword terms from an AND group, unless nothing else would be left
+   * @param children Children of the group
+   * @returns Remaining children
+   */
+  private removeStopwords(children: QueryNode[]): QueryNode[] {
+    const kept = children.filter(
+      (child) =>
+        !(child.type === 'term' && !child.prefix && isSwedishStopword(this.normalizeWord(child.value)))
+    );
+    return kept.some((child) => child.type !== 'not') ? kept : children;
+  }
+}
@@ -1,15 +1,133 @@
 import pako from 'pako';
 
 /**
- * Decompress gzip data
- * @param data Compressed gzip data as Uint8Array
- * @returns Decompressed data as Uint8Array
+ * Read the decompressed size from a gzip footer
+ * (ISIZE, the last four bytes, little-endian, modulo 2^32)
+ * @param footer Last four bytes of the gzip file
+ * @returns Decompressed size in bytes
  */
-export function decompressGzip(data: Uint8Array): Uint8Array {
-  try {
-    return pako.ungzip(data);
-  } catch (error) {
-    throw new Error(`Failed to decompress gzip data: ${error instanceof Error ? error.message : 'Unknown error'}`);
+export function readGzipSize(footer: Uint8Array): number {
+  return new DataView(footer.buffer, footer.byteOffset, 4).getUint32(0, true);
+}
+
+/**
+ * Gunzip Stream
+ * Decompresses gzip data chunk by chunk into a single buffer, so the
+ * compressed file never has to be held whole. The buffer is preallocated
+ * when the decompressed size is known and grows otherwise. Data without
+ * the gzip magic number is passed through unchanged.
+ */
+export class GunzipStream {
+  private inflate: pako.Inflate | null = null;
+  private ended = false; // The gzip stream was complete
+  private head: Uint8Array | null = new Uint8Array(0); // First bytes until gzip is detected
+  private output: Uint8Array;
+  private length = 0;
+
+  /**
+   * @param expectedSize Decompressed size if known, 0 otherwise
+   */
+  constructor(expectedSize = 0) {
+    this.output = new Uint8Array(expectedSize);
+  }
+
+  /**
+   * Bytes of output so far
+   */
+  get size(): number {
+    return this.length;
+  }
+
+  /**
+   * Make room for output of the given size
+   * @param size Expected total output bytes
+   */
+  reserve(size: number): void {
+    if (size <= this.output.length) return;
+
+    const output = new Uint8Array(size);
+    output.set(this.output.subarray(0, this.length));
+    this.output = output;
+  }
+
+  /**
+   * Decompress the next chunk of input
+   * @param chunk Next bytes of the file
+   * @throws Error if the data is not valid gzip
+   */
+  push(chunk: Uint8Array): void {
+    if (this.head) {
+      // The magic number may be split over the first chunks
+      const head: Uint8Array = new Uint8Array(this.head.length + chunk.length);
+      head.set(this.head);
+      head.set(chunk, this.head.length);
+      if (head.length < 2) {
+        this.head = head;
+        return;
+      }
+
+      this.head = null;
+      if (isGzipped(head)) {
+        const inflate = new pako.Inflate();
+        const onEnd = inflate.onEnd.bind(inflate); // Sets err and msg
+        inflate.onData = (data) => this.append(data as Uint8Array);
+        inflate.onEnd = (status) => {
+          onEnd(status);
+          this.ended = true;
+        };
+        this.inflate = inflate;
+      }
+      chunk = head;
+    }
+
+    if (!this.inflate) {
+      this.append(chunk);
+      return;
+    }
+
+    this.inflate.push(chunk, false);
+    if (this.inflate.err) {
+      throw new Error(`Failed to decompress gzip data: ${this.inflate.msg}`);
+    }
+  }
+
+  /**
+   * Finish decompression
+   * @returns Decompressed data
+   * @throws Error if the gzip data is incomplete or invalid
+   */
+  finish(): Uint8Array {
+    if (this.head) {
+      this.append(this.head);
+      this.head = null;
+    }
+
+    if (this.inflate) {
+      this.inflate.push(new Uint8Array(0), true);
+      if (this.inflate.err) {
+        throw new Error(`Failed to decompress gzip data: ${this.inflate.msg}`);
+      }
+      if (!this.ended) {
+        throw new Error('Failed to decompress gzip data: unexpected end of data');
+      }
+    }
+
+    // A copy only if the buffer was larger than needed
+    return this.length === this.output.length
+      ? this.output
+      : this.output.slice(0, this.length);
+  }
+
+  /**
+   * Append output, growing the buffer if needed
+   * @param data Decompressed bytes
+   */
+  private append(data: Uint8Array): void {
+    if (this.length + data.length > this.output.length) {
+      this.reserve(Math.max(this.output.length * 2, this.length + data.length));
+    }
+    this.output.set(data, this.length);
+    this.length += data.length;
   }
 }
 
@@ -1,3 +1,8 @@
+import sqlJsWasmUrl from 'sql.js/dist/sql-wasm.wasm?url';
+
+// Development serves uncompressed copies of the databases from /dbs
+const localDatabases = import.meta.env.DEV && import.meta.env.VITE_USE_REMOTE_DB !== 'true';
+
 // Environment configuration
 export const config = {
   // Development vs production mode
@@ -6,14 +11,17 @@ export const config = {
   // Force remote database loading (for testing)
   forceRemote: import.meta.env.VITE_USE_REMOTE_DB === 'true',
 
+  // Local copies instead of the published files, which the manifest describes
+  localDatabases,
+
   // Database URLs
-  databaseBaseUrl: (import.meta.env.DEV && import.meta.env.VITE_USE_REMOTE_DB !== 'true')
+  databaseBaseUrl: localDatabases
     ? '/dbs'
     : 'https://raw.githubusercontent.com/DigitalHistory-Lund/ToK-Preparer/main',
 
   // Database filename pattern
   databaseFilename: (year: number) =>
-    (import.meta.env.DEV && import.meta.env.VITE_USE_REMOTE_DB !== 'true')
+    localDatabases
       ? `ToK_data_${year}.sqlite3`
       : `ToK_data_${year}.sqlite3.gz`,
 
@@ -24,23 +32,64 @@ export const config = {
     return `${base}/${filename}`;
   },
 
+  // Corpus manifest URL (years, sizes and checksums of the published files)
+  manifestUrl: () => `${config.databaseBaseUrl}/manifest.json`,
+
+  // Download retries after a transient failure, with doubling delays from the base delay (ms)
+  downloadRetries: 4,
+  downloadRetryDelay: 1000,
+
+  // Bytes of a download kept in IndexedDB at a time, so an interruption can resume
+  downloadChunkBytes: 4 * 1024 * 1024,
+
+  // Database loading mode:
+  // 'download' fetches and caches the whole (gzipped) file,
+  // 'lazy' reads SQLite pages on demand with HTTP Range requests from an uncompressed file,
+  // 'lazy-chunked' does the same over a file split into chunks described by a config.json
+  databaseLoadMode: (import.meta.env.VITE_DB_LOAD_MODE || 'download') as
+    'download' | 'lazy' | 'lazy-chunked',
+
+  // Uncompressed database URL for lazy loading
+  lazyDatabaseUrl: (year: number) => `${config.databaseBaseUrl}/ToK_data_${year}.sqlite3`,
+
+  // Chunk manifest URL for lazy loading from split files
+  lazyChunkConfigUrl: (year: number) => `${config.databaseBaseUrl}/ToK_data_${year}/config.json`,
+
+  // Bytes per Range request (should match the SQLite page size)
+  lazyRequestChunkSize: 4096,
+
   // Cache settings
   cacheVersion: '1.0.0',
-  maxCachedDatabases: 3, // Max databases in memory
+  // Quiet time after an index build before the database is re-cached, so
+  // indexes built in a row cost one export of the whole database
+  indexCacheDelayMs: 5000,
+  // Memory budget for open databases; least recently used ones are closed beyond it
+  memoryBudgetBytes: (Number(import.meta.env.VITE_MEMORY_BUDGET_MB) || 256) * 1024 * 1024,
   cacheDbName: 'tok-reader-cache',
   cacheStoreName: 'databases',
+  cacheInfoStoreName: 'info',
+  cacheDownloadStoreName: 'downloads', // Chunks of interrupted downloads
+  // Byte budget of the persistent cache; least recently used years are evicted beyond it
+  maxCacheBytes: (Number(import.meta.env.VITE_CACHE_BUDGET_MB) || 1024) * 1024 * 1024,
 
   // sql.js settings
-  sqlJsWasmUrl: import.meta.env.DEV
-    ? '/sql-wasm.wasm'
-    : '/ToK-Reader/sql-wasm.wasm',
+  // Bundled from the sql.js package, so it matches the JS runtime's version
+  // and is served from the app's own base path
+  sqlJsWasmUrl,
 
   // Search settings
   maxSearchResults: 100,
+  snippetContextLength: 100, // Characters around the matches of a snippet fragment, on each side
+  snippetFragments: 2, // Fragments per result snippet, around its densest matches
+  searchPageSize: 50,
+  facetSpeakerLimit: 10, // Top speakers shown as facets
   searchDebounceMs: 500,
+  spellingRulesStorageKey: 'tok-reader-spelling-rules',
+  resultsScrollStorageKey: 'tok-reader-results-scroll', // Where the last opened result was
 
   // Reader settings
   initialContextSize: 5, // Utterances before/after
   scrollLoadSize: 10, // Utterances to load on scroll
+  maxChainLength: 10000, // prev/next links followed at most, so cyclic links cannot loop forever
   scrollDebounceMs: 300,
 } as const;
@@ -0,0 +1,16 @@
+/**
+ * Register the service worker that keeps the app shell available offline.
+ * It is only built for production, so development always runs from the dev server.
+ */
+export function registerServiceWorker(): void {
+  if (import.meta.env.DEV || !('serviceWorker' in navigator)) return;
+
+  window.addEventListener('load', () => {
+    navigator.serviceWorker
+      .register(`${import.meta.env.BASE_URL}sw.js`, { scope: import.meta.env.BASE_URL })
+      .catch((error) => {
+        // The app still works online without it
+        console.warn('Service worker registration failed:', error);
+      });
+  });
+}
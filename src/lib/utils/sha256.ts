@@ -0,0 +1,126 @@
+// Round constants: fractional parts of the cube roots of the first 64 primes
+const K = new Uint32Array([
+  0x428a2f98, 0x71374491, 0xb5c0fbcf, 0xe9b5dba5, 0x3956c25b, 0x59f111f1, 0x923f82a4, 0xab1c5ed5,
+  0xd807aa98, 0x12835b01, 0x243185be, 0x550c7dc3, 0x72be5d74, 0x80deb1fe, 0x9bdc06a7, 0xc19bf174,
+  0xe49b69c1, 0xefbe4786, 0x0fc19dc6, 0x240ca1cc, 0x2de92c6f, 0x4a7484aa, 0x5cb0a9dc, 0x76f988da,
+  0x983e5152, 0xa831c66d, 0xb00327c8, 0xbf597fc7, 0xc6e00bf3, 0xd5a79147, 0x06ca6351, 0x14292967,
+  0x27b70a85, 0x2e1b2138, 0x4d2c6dfc, 0x53380d13, 0x650a7354, 0x766a0abb, 0x81c2c92e, 0x92722c85,
+  0xa2bfe8a1, 0xa81a664b, 0xc24b8b70, 0xc76c51a3, 0xd192e819, 0xd6990624, 0xf40e3585, 0x106aa070,
+  0x19a4c116, 0x1e376c08, 0x2748774c, 0x34b0bcb5, 0x391c0cb3, 0x4ed8aa4a, 0x5b9cca4f, 0x682e6ff3,
+  0x748f82ee, 0x78a5636f, 0x84c87814, 0x8cc70208, 0x90befffa, 0xa4506ceb, 0xbef9a3f7, 0xc67178f2,
+]);
+
+// Initial hash: fractional parts of the square roots of the first 8 primes
+const INITIAL_STATE = [
+  0x6a09e667, 0xbb67ae85, 0x3c6ef372, 0xa54ff53a, 0x510e527f, 0x9b05688c, 0x1f83d9ab, 0x5be0cd19,
+];
+
+/**
+ * Rotate a 32-bit word right
+ */
+function rotr(word: number, bits: number): number {
+  return (word >>> bits) | (word << (32 - bits));
+}
+
+/**
+ * Incremental SHA-256
+ * crypto.subtle can only digest a complete buffer; this hashes a file chunk
+ * by chunk while it downloads, so the file does not have to be kept whole.
+ */
+export class Sha256 {
+  private readonly state = new Uint32Array(INITIAL_STATE);
+  private readonly block = new Uint8Array(64);
+  private readonly words = new Uint32Array(64);
+  private blockLength = 0; // Bytes waiting in block
+  private length = 0; // Bytes hashed so far
+
+  /**
+   * Add data to the hash
+   * @param data Next bytes of the message
+   */
+  update(data: Uint8Array): void {
+    this.length += data.length;
+    let position = 0;
+
+    // Fill up a block left over from the previous call
+    if (this.blockLength > 0) {
+      position = Math.min(64 - this.blockLength, data.length);
+      this.block.set(data.subarray(0, position), this.blockLength);
+      this.blockLength += position;
+      if (this.blockLength < 64) return;
+      this.compress(this.block, 0);
+      this.blockLength = 0;
+    }
+
+    for (; position + 64 <= data.length; position += 64) {
+      this.compress(data, position);
+    }
+
+    if (position < data.length) {
+      this.block.set(data.subarray(position), 0);
+      this.blockLength = data.length - position;
+    }
+  }
+
+  /**
+   * Finish the hash (no more updates afterwards)
+   * @returns Hex digest
+   */
+  digestHex(): string {
+    // Padding: 0x80, zeros up to 56 mod 64, then the length in bits as 64-bit big-endian
+    const padLength = this.blockLength < 56 ? 56 - this.blockLength : 120 - this.blockLength;
+    const padding = new Uint8Array(padLength + 8);
+    const view = new DataView(padding.buffer);
+    padding[0] = 0x80;
+    view.setUint32(padLength, Math.floor(this.length / 0x20000000));
+    view.setUint32(padLength + 4, (this.length * 8) >>> 0);
+    this.update(padding);
+
+    return Array.from(this.state, (word) => word.toString(16).padStart(8, '0')).join('');
+  }
+
+  /**
+   * Process one 64-byte block
+   * @param data Data containing the block
+   * @param offset Offset of the block in data
+   */
+  private compress(data: Uint8Array, offset: number): void {
+    const w = this.words;
+    for (let t = 0; t < 16; t++) {
+      const i = offset + t * 4;
+      w[t] = (data[i] << 24) | (data[i + 1] << 16) | (data[i + 2] << 8) | data[i + 3];
+    }
+    for (let t = 16; t < 64; t++) {
+      const s0 = rotr(w[t - 15], 7) ^ rotr(w[t - 15], 18) ^ (w[t - 15] >>> 3);
+      const s1 = rotr(w[t - 2], 17) ^ rotr(w[t - 2], 19) ^ (w[t - 2] >>> 10);
+      w[t] = w[t - 16] + s0 + w[t - 7] + s1;
+    }
+
+    let [a, b, c, d, e, f, g, h] = this.state;
+    for (let t = 0; t < 64; t++) {
+      const s1 = rotr(e, 6) ^ rotr(e, 11) ^ rotr(e, 25);
+      const ch = (e & f) ^ (~e & g);
+      const temp1 = (h + s1 + ch + K[t] + w[t]) | 0;
+      const s0 = rotr(a, 2) ^ rotr(a, 13) ^ rotr(a, 22);
+      const maj = (a & b) ^ (a & c) ^ (b & c);
+      const temp2 = (s0 + maj) | 0;
+      h = g;
+      g = f;
+      f = e;
+      e = (d + temp1) | 0;
+      d = c;
+      c = b;
+      b = a;
+      a = (temp1 + temp2) | 0;
+    }
+
+    this.state[0] += a;
+    this.state[1] += b;
+    this.state[2] += c;
+    this.state[3] += d;
+    this.state[4] += e;
+    this.state[5] += f;
+    this.state[6] += g;
+    this.state[7] += h;
+  }
+}
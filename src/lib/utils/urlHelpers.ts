@@ -1,3 +1,5 @@
+import type { MatchCriteria, SnippetFragment } from '@/types/search';
+
 /**
  * Parse date from YYYYMMDD integer format to readable string
  * @param date Date as YYYYMMDD integer
@@ -24,6 +26,23 @@ export function parseDate(date: number): Date {
   return new Date(year, month, day);
 }
 
+/**
+ * Format a byte count for display
+ * @param bytes Number of bytes
+ * @returns Size with unit, e.g. "12.3 MB"
+ */
+export function formatBytes(bytes: number): string {
+  if (bytes < 1024) return `${bytes} B`;
+  const units = ['KB', 'MB', 'GB'];
+  let value = bytes / 1024;
+  let unit = 0;
+  while (value >= 1024 && unit < units.length - 1) {
+    value /= 1024;
+    unit++;
+  }
+  return `${value.toFixed(1)} ${units[unit]}`;
+}
+
 /**
  * Truncate text to a maximum length
  * @param text Text to truncate
@@ -36,29 +55,75 @@ export function truncateText(text: string, maxLength: number): string {
 }
 
 /**
- * Create a text snippet with context around a query match
+ * Create a keyword-in-context snippet: fragments of the text around the
+ * windows holding the most matches, so every word of a multi-word query
+ * can show. Fragments start and end at word boundaries where possible.
  * @param text Full text
- * @param query Search query
- * @param contextLength Characters of context on each side
- * @returns Snippet with query highlighted
+ * @param matches Matched spans of the text, in text order
+ * @param contextLength Characters of context on each side (a window is twice as long)
+ * @param maxFragments Most fragments to pick
+ * @returns Fragments in text order, with the matches they contain marked
  */
-export function createSnippet(text: string, query: string, contextLength: number = 100): string {
-  if (!query) return truncateText(text, contextLength * 2);
+export function createSnippet(
+  text: string,
+  matches: { start: number; end: number }[],
+  contextLength: number = 100,
+  maxFragments: number = 1
+): SnippetFragment[] {
+  const width = contextLength * 2;
+  if (matches.length === 0) {
+    return [{ text: text.slice(0, width), highlights: [], cutStart: false, cutEnd: text.length > width }];
+  }
+
+  const windows: { start: number; end: number }[] = [];
+  let remaining = matches;
+
+  while (remaining.length > 0 && windows.length < maxFragments) {
+    // Densest run of matches that fits in one window
+    let best = { from: 0, to: 0 };
+    for (let from = 0, to = 0; from < remaining.length; from++) {
+      to = Math.max(to, from);
+      while (to + 1 < remaining.length && remaining[to + 1].end - remaining[from].start <= width) {
+        to++;
+      }
+      if (to - from > best.to - best.from) best = { from, to };
+    }
 
-  const lowerText = text.toLowerCase();
-  const lowerQuery = query.toLowerCase();
-  const index = lowerText.indexOf(lowerQuery);
+    // Center the run in the window, moving it inwards at the ends of the text
+    const spanStart = remaining[best.from].start;
+    const spanEnd = remaining[best.to].end;
+    const padding = Math.max(0, Math.floor((width - (spanEnd - spanStart)) / 2));
+    let end = Math.min(text.length, Math.max(spanEnd + padding, spanStart + width));
+    let start = Math.max(0, Math.min(spanStart - padding, end - width));
+    end = Math.max(end, spanEnd);
 
-  if (index === -1) return truncateText(text, contextLength * 2);
+    // Do not cut words in half
+    while (start > 0 && start < spanStart && /\S/.test(text[start - 1])) start++;
+    while (start < spanStart && /\s/.test(text[start])) start++;
+    while (end < text.length && end > spanEnd && /\S/.test(text[end])) end--;
+    while (end > spanEnd && /\s/.test(text[end - 1])) end--;
 
-  const start = Math.max(0, index - contextLength);
-  const end = Math.min(text.length, index + query.length + contextLength);
+    windows.push({ start, end });
+    remaining = remaining.filter((match) => match.end <= start || match.start >= end);
+  }
 
-  let snippet = text.slice(start, end);
-  if (start > 0) snippet = '...' + snippet;
-  if (end < text.length) snippet = snippet + '...';
+  // Overlapping windows become one fragment
+  windows.sort((a, b) => a.start - b.start);
+  const merged: { start: number; end: number }[] = [];
+  for (const window of windows) {
+    const last = merged[merged.length - 1];
+    if (last && window.start <= last.end) last.end = Math.max(last.end, window.end);
+    else merged.push({ ...window });
+  }
 
-  return snippet;
+  return merged.map(({ start, end }) => ({
+    text: text.slice(start, end),
+    highlights: matches
+      .filter((match) => match.start >= start && match.end <= end)
+      .map((match) => ({ start: match.start - start, end: match.end - start })),
+    cutStart: start > 0,
+    cutEnd: end < text.length,
+  }));
 }
 
 /**
@@ -95,3 +160,32 @@ export function normalizePartyName(party: string | null): string {
   if (!party) return 'default';
   return party.toLowerCase().replace(/\s+/g, '').replace(/ä/g, 'a').replace(/ö/g, 'o');
 }
+
+/**
+ * Parse what a search matches from URL parameters
+ * @param params URL parameters of a search
+ * @returns Match criteria, or null if the parameters select nothing
+ */
+export function parseMatchCriteria(params: URLSearchParams): MatchCriteria | null {
+  const flag = (key: string) =>
+    params.get(key) === '1' ? true : params.get(key) === '0' ? false : undefined;
+  const parties = params.getAll('party');
+  const genders = params.getAll('gender');
+
+  const criteria: MatchCriteria = {
+    query: params.get('query') || undefined,
+    party: parties.length > 0 ? parties : undefined,
+    gender: genders.length > 1 ? genders : genders[0],
+    speaker: parseInt(params.get('speaker') || '') || undefined,
+    kvinna: flag('kvinna'),
+    kvinna_1: flag('kvinna_1'),
+    kvinna_2: flag('kvinna_2'),
+    kvinna_3: flag('kvinna_3'),
+    dateFrom: parseInt(params.get('dateFrom') || '') || undefined,
+    dateTo: parseInt(params.get('dateTo') || '') || undefined,
+    normalize: params.get('normalize') === '1' || undefined,
+    stem: params.get('stem') === '1' || undefined,
+  };
+
+  return Object.values(criteria).some((value) => value !== undefined) ? criteria : null;
+}
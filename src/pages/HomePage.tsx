@@ -1,6 +1,13 @@
 import { YearSelector } from '@/components/home/YearSelector';
+import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { useManifest } from '@/hooks/useManifest';
+import { useOfflineStatus } from '@/hooks/useOfflineStatus';
 
 export function HomePage() {
+  const { manifest, years, loading } = useManifest();
+  const { isYearAvailable } = useOfflineStatus();
+  const totalUtterances = manifest?.years.reduce((sum, entry) => sum + entry.utterances, 0);
+
   return (
     <div className="max-w-6xl mx-auto">
       <div className="text-center mb-12">
@@ -8,8 +15,13 @@ export function HomePage() {
           Swedish Parliamentary Debate Reader
         </h1>
         <p className="text-lg text-gray-600 mb-2">
-          Browse and search Swedish parliamentary debates from 1900 to 1940
+          Browse and search Swedish parliamentary debates from {years[0]} to {years[years.length - 1]}
         </p>
+        {manifest && (
+          <p className="text-sm text-gray-500 mb-2">
+            {years.length} years, {totalUtterances?.toLocaleString()} utterances · Data release {manifest.release}
+          </p>
+        )}
         <p className="text-sm text-gray-500">
           Select a year to begin searching and reading
         </p>
@@ -19,7 +31,11 @@ export function HomePage() {
         <h2 className="text-2xl font-semibold text-gray-800 mb-6">
           Select a Year
         </h2>
-        <YearSelector />
+        {loading ? (
+          <LoadingSpinner message="Loading corpus manifest..." />
+        ) : (
+          <YearSelector years={years} manifest={manifest} isYearAvailable={isYearAvailable} />
+        )}
       </div>
 
       <div className="mt-8 bg-blue-50 border border-blue-200 rounded-lg p-6">
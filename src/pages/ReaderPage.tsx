@@ -1,12 +1,37 @@
-import { useState, useEffect, useRef } from 'react';
-import { useParams, useNavigate } from 'react-router-dom';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { Link, useLocation, useParams, useNavigate, useSearchParams } from 'react-router-dom';
 import { useDatabase } from '@/hooks/useDatabase';
-import { getUtteranceContext, getUtteranceChain, getPreviousExchange, getNextExchange, getFirstUtterance, getLastExchange, getPreviousKvinnaUtterance, getNextKvinnaUtterance, getPreviousFemaleUtterance, getNextFemaleUtterance, getFirstKvinnaUtterance, getLastKvinnaUtterance, getFirstFemaleUtterance, getLastFemaleUtterance } from '@/lib/database/queries';
+import { useManifest } from '@/hooks/useManifest';
+import { getUtteranceContext, getUtteranceChain, getExchangeCount, getExchangeByNumber, getExchangePosition, getPreviousExchange, getNextExchange, getFirstUtterance, getLastExchange } from '@/lib/database/queries';
+import { searchEngine } from '@/lib/search/SearchEngine';
+import { MatchNavigator } from '@/components/reader/MatchNavigator';
 import { UtteranceCard } from '@/components/reader/UtteranceCard';
 import { LoadingSpinner } from '@/components/common/LoadingSpinner';
-import type { UtteranceWithPerson } from '@/types/database';
+import { LoadingStepper } from '@/components/common/LoadingStepper';
+import type { ExchangePosition, UtteranceWithPerson } from '@/types/database';
+import type { MatchCriteria } from '@/types/search';
+import type { ReaderLocationState, SearchLocationState } from '@/types/app';
 import { config } from '@/lib/utils/config';
-import { formatDate } from '@/lib/utils/urlHelpers';
+import { formatDate, parseMatchCriteria } from '@/lib/utils/urlHelpers';
+
+// Built-in filters to jump between
+const KVINNA_TAGGED: MatchCriteria = { kvinna: true };
+const FEMALE_SPEAKER: MatchCriteria = { gender: ['woman', 'kvinna'] };
+
+/**
+ * Summarize what a search matches, e.g. "rösträtt · S, FP · woman"
+ */
+function describeMatchCriteria(criteria: MatchCriteria): string {
+  const parts = [
+    criteria.query,
+    criteria.party?.join(', '),
+    criteria.gender && [criteria.gender].flat().join('/'),
+    criteria.speaker !== undefined && `speaker ${criteria.speaker}`,
+    criteria.dateFrom && `from ${formatDate(criteria.dateFrom)}`,
+    criteria.dateTo && `to ${formatDate(criteria.dateTo)}`,
+  ];
+  return parts.filter(Boolean).join(' · ') || 'Search match';
+}
 
 export function ReaderPage() {
   const { year: yearParam, utteranceId } = useParams<{
@@ -15,11 +40,41 @@ export function ReaderPage() {
   }>();
   const year = parseInt(yearParam || '1920');
   const navigate = useNavigate();
-
-  const { loading: dbLoading, error: dbError } = useDatabase(year);
+  // The search the reader was opened from, kept while reading on
+  const [searchParams] = useSearchParams();
+  const search = searchParams.toString();
+  const activeSearch = useMemo(() => parseMatchCriteria(searchParams), [searchParams]);
+  const location = useLocation();
+  const readerState = location.state as ReaderLocationState | null;
+  const resultsUrl = readerState?.resultsUrl ?? (activeSearch ? `/search?year=${year}&${search}` : null);
+
+  // Open an utterance, keeping the search and the way back to its results
+  const goTo = (pathYear: number, id: string, replace = false) =>
+    navigate(`/${pathYear}/${id}${search ? `?${search}` : ''}`, { replace, state: readerState });
+
+  const {
+    loading: dbLoading,
+    error: dbError,
+    stages: dbStages,
+    cancel: cancelDbLoad,
+    retry: retryDbLoad,
+  } = useDatabase(year);
+  const { years: availableYears } = useManifest();
   const [utterances, setUtterances] = useState<UtteranceWithPerson[]>([]);
   const [loading, setLoading] = useState(true);
   const [loadingMore, setLoadingMore] = useState({ top: false, bottom: false });
+  // From the exchange index; null for databases without one (lazy loading)
+  const [exchangeCount, setExchangeCount] = useState<number | null>(null);
+  const [exchangePosition, setExchangePosition] = useState<ExchangePosition | null>(null);
+  // Hit of the active search stepped to, and where to step after jumping to another match
+  const [activeHit, setActiveHit] = useState<{ utteranceId: string; index: number } | null>(null);
+  // Which loaded utterances the active search matches in full, filters included
+  const [matching, setMatching] = useState<{
+    search: MatchCriteria;
+    checked: Set<string>;
+    ids: Set<string>;
+  } | null>(null);
+  const hitAfterJumpRef = useRef<'previous' | 'next' | null>(null);
 
   const topSentinelRef = useRef<HTMLDivElement>(null);
   const bottomSentinelRef = useRef<HTMLDivElement>(null);
@@ -57,6 +112,74 @@ export function ReaderPage() {
     loadInitial();
   }, [year, utteranceId, dbLoading]);
 
+  // Number of exchanges in the year
+  useEffect(() => {
+    setExchangeCount(null);
+    if (dbLoading !== 'success') return;
+    let cancelled = false;
+
+    getExchangeCount(year)
+      .then((count) => {
+        if (!cancelled) setExchangeCount(count);
+      })
+      .catch((error) => console.error('Failed to load exchange count:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [year, dbLoading]);
+
+  // Exchange of the current utterance and its position in it
+  useEffect(() => {
+    if (dbLoading !== 'success' || !utteranceId || exchangeCount === null) {
+      setExchangePosition(null);
+      return;
+    }
+    let cancelled = false;
+
+    getExchangePosition(year, utteranceId)
+      .then((position) => {
+        if (!cancelled) setExchangePosition(position);
+      })
+      .catch((error) => console.error('Failed to load exchange position:', error));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [year, utteranceId, dbLoading, exchangeCount]);
+
+  /**
+   * Find the first utterance of the exchange before or after the current one
+   * in this year, by number in the exchange index. Lazily loaded databases
+   * are read-only, so the index cannot be built into them; only there are
+   * exchanges found by (date, id) from the prev/next links instead.
+   */
+  const findAdjacentExchange = async (currentId: string, step: -1 | 1) => {
+    const count = exchangeCount ?? (await getExchangeCount(year));
+    if (count === null) {
+      return step < 0 ? getPreviousExchange(year, currentId) : getNextExchange(year, currentId);
+    }
+
+    const position = exchangePosition ?? (await getExchangePosition(year, currentId));
+    if (!position) return null;
+    const exchange = await getExchangeByNumber(year, position.exchange.number + step);
+    return exchange && { id: exchange.firstId };
+  };
+
+  /**
+   * Find the first utterance of the first or last exchange of another year,
+   * by the exchange index where it has one (see findAdjacentExchange)
+   */
+  const findEdgeExchange = async (targetYear: number, edge: 'first' | 'last') => {
+    const count = await getExchangeCount(targetYear);
+    if (count === null) {
+      return edge === 'first' ? getFirstUtterance(targetYear) : getLastExchange(targetYear);
+    }
+
+    const exchange = await getExchangeByNumber(targetYear, edge === 'first' ? 1 : count);
+    return exchange && { id: exchange.firstId };
+  };
+
   // Load more previous utterances
   const loadPrevious = async () => {
     if (utterances.length === 0 || !utterances[0].prev || loadingMore.top) {
@@ -124,18 +247,19 @@ export function ReaderPage() {
     if (!utteranceId) return;
 
     try {
-      const prevExchange = await getPreviousExchange(year, utteranceId);
+      const prevExchange = await findAdjacentExchange(utteranceId, -1);
 
       if (prevExchange) {
         // Found previous exchange in same year
-        navigate(`/${year}/${prevExchange.id}`);
+        goTo(year, prevExchange.id);
       } else {
         // No previous exchange in this year - try last exchange of previous year
-        const prevYear = year - 1;
+        const prevYear = availableYears.filter((y) => y < year).pop();
+        if (prevYear === undefined) return;
         try {
-          const lastExchangeOfPrevYear = await getLastExchange(prevYear);
+          const lastExchangeOfPrevYear = await findEdgeExchange(prevYear, 'last');
           if (lastExchangeOfPrevYear) {
-            navigate(`/${prevYear}/${lastExchangeOfPrevYear.id}`);
+            goTo(prevYear, lastExchangeOfPrevYear.id);
           }
         } catch (error) {
           console.error('Previous year not available:', error);
@@ -151,18 +275,19 @@ export function ReaderPage() {
     if (!utteranceId) return;
 
     try {
-      const nextExchange = await getNextExchange(year, utteranceId);
+      const nextExchange = await findAdjacentExchange(utteranceId, 1);
 
       if (nextExchange) {
         // Found next exchange in same year
-        navigate(`/${year}/${nextExchange.id}`);
+        goTo(year, nextExchange.id);
       } else {
         // No next exchange in this year - try next year
-        const nextYear = year + 1;
+        const nextYear = availableYears.find((y) => y > year);
+        if (nextYear === undefined) return;
         try {
-          const firstOfNextYear = await getFirstUtterance(nextYear);
+          const firstOfNextYear = await findEdgeExchange(nextYear, 'first');
           if (firstOfNextYear) {
-            navigate(`/${nextYear}/${firstOfNextYear.id}`);
+            goTo(nextYear, firstOfNextYear.id);
           }
         } catch (error) {
           console.error('Next year not available:', error);
@@ -201,133 +326,136 @@ export function ReaderPage() {
   // Handle utterance card click
   const handleUtteranceClick = (clickedUtteranceId: string) => {
     if (clickedUtteranceId !== utteranceId) {
-      navigate(`/${year}/${clickedUtteranceId}`, { replace: true });
+      goTo(year, clickedUtteranceId, true);
     }
   };
 
-  // Navigate to previous kvinna utterance
-  const handlePreviousKvinna = async () => {
-    if (!utteranceId) return;
+  // Jump to the previous or next utterance matching a filter, in any year,
+  // from the current utterance or the given one
+  const jumpToMatch = async (
+    criteria: MatchCriteria,
+    target: 'previous' | 'next',
+    fromId: string | undefined = utteranceId
+  ) => {
+    const current = utterances.find((u) => u.id === fromId);
+    if (!current) return false;
 
     try {
-      const prevKvinna = await getPreviousKvinnaUtterance(year, utteranceId);
-      if (prevKvinna) {
-        // Found previous kvinna in same year
-        navigate(`/${year}/${prevKvinna.id}`);
-      } else {
-        // No previous kvinna in this year - try previous years
-        // Keep trying earlier years until we find one with kvinna utterances
-        for (let tryYear = year - 1; tryYear >= 1867; tryYear--) {
-          try {
-            const lastKvinnaOfPrevYear = await getLastKvinnaUtterance(tryYear);
-            if (lastKvinnaOfPrevYear) {
-              navigate(`/${tryYear}/${lastKvinnaOfPrevYear.id}`);
-              return;
-            }
-          } catch (error) {
-            // Year database not available, continue to next year
-            continue;
-          }
-        }
-        console.log('No previous kvinna utterance found');
+      const match = await searchEngine.findMatch(criteria, target, {
+        year,
+        date: current.date,
+        id: current.id,
+      });
+      if (match) {
+        goTo(match.year, match.id);
+        return true;
       }
+      console.log(`No ${target} match found`);
     } catch (error) {
-      console.error('Failed to navigate to previous kvinna utterance:', error);
+      console.error(`Failed to navigate to the ${target} match:`, error);
     }
+    return false;
   };
 
-  // Navigate to next kvinna utterance
-  const handleNextKvinna = async () => {
-    if (!utteranceId) return;
+  // Step to the previous or next hit of the active search: through the marked
+  // words of the loaded utterances it matches, in reading order (the order of
+  // the exchange), then on to other matches in the same order
+  const stepHit = async (target: 'previous' | 'next') => {
+    if (!activeSearch) return;
+
+    const rank = (hit: { utteranceId: string; index: number }) =>
+      [utterances.findIndex((u) => u.id === hit.utteranceId), hit.index];
+    // Until a hit is stepped to, start just before the current utterance's first hit
+    const [fromUtterance, fromIndex] = activeHit
+      ? rank(activeHit)
+      : [utterances.findIndex((u) => u.id === utteranceId), -0.5];
+    const candidates = hitList.filter((hit) => {
+      const [hitUtterance, hitIndex] = rank(hit);
+      const order = hitUtterance - fromUtterance || hitIndex - fromIndex;
+      return target === 'next' ? order > 0 : order < 0;
+    });
+    const hit = target === 'next' ? candidates[0] : candidates[candidates.length - 1];
+
+    if (hit) {
+      setActiveHit(hit);
+      return;
+    }
 
-    try {
-      const nextKvinna = await getNextKvinnaUtterance(year, utteranceId);
-      if (nextKvinna) {
-        // Found next kvinna in same year
-        navigate(`/${year}/${nextKvinna.id}`);
-      } else {
-        // No next kvinna in this year - try future years
-        // Keep trying later years until we find one with kvinna utterances
-        for (let tryYear = year + 1; tryYear <= 2024; tryYear++) {
-          try {
-            const firstKvinnaOfNextYear = await getFirstKvinnaUtterance(tryYear);
-            if (firstKvinnaOfNextYear) {
-              navigate(`/${tryYear}/${firstKvinnaOfNextYear.id}`);
-              return;
-            }
-          } catch (error) {
-            // Year database not available, continue to next year
-            continue;
-          }
-        }
-        console.log('No next kvinna utterance found');
-      }
-    } catch (error) {
-      console.error('Failed to navigate to next kvinna utterance:', error);
+    // The hits after the loaded utterances are found by the search itself
+    hitAfterJumpRef.current = target;
+    if (!(await jumpToMatch(activeSearch, target, activeHit?.utteranceId))) {
+      hitAfterJumpRef.current = null;
     }
   };
 
-  // Navigate to previous female speaker utterance
-  const handlePreviousFemale = async () => {
-    if (!utteranceId) return;
+  // Words the active search matches in each loaded utterance
+  const highlighter = useMemo(
+    () => (activeSearch ? searchEngine.createHighlighter(activeSearch) : null),
+    [activeSearch]
+  );
+  const hits = useMemo(() => {
+    // Words are only marked in utterances known to match the whole search
+    const known = matching?.search === activeSearch ? matching : null;
+    return new Map(
+      utterances
+        .filter((u) => known?.checked.has(u.id))
+        .map((u) => [u.id, known?.ids.has(u.id) ? highlighter?.(u.content) ?? [] : []])
+    );
+  }, [utterances, highlighter, matching, activeSearch]);
+  const hitList = useMemo(
+    () => utterances.flatMap((u) =>
+      (hits.get(u.id) ?? []).map((_, index) => ({ utteranceId: u.id, index }))
+    ),
+    [utterances, hits]
+  );
 
-    try {
-      const prevFemale = await getPreviousFemaleUtterance(year, utteranceId);
-      if (prevFemale) {
-        // Found previous female speaker in same year
-        navigate(`/${year}/${prevFemale.id}`);
-      } else {
-        // No previous female speaker in this year - try previous years
-        // Keep trying earlier years until we find one with female speakers
-        for (let tryYear = year - 1; tryYear >= 1867; tryYear--) {
-          try {
-            const lastFemaleOfPrevYear = await getLastFemaleUtterance(tryYear);
-            if (lastFemaleOfPrevYear) {
-              navigate(`/${tryYear}/${lastFemaleOfPrevYear.id}`);
-              return;
-            }
-          } catch (error) {
-            // Year database not available, continue to next year
-            continue;
-          }
+  // Check which loaded utterances match the active search
+  useEffect(() => {
+    if (!activeSearch || dbLoading !== 'success' || utterances.length === 0) return;
+    let cancelled = false;
+
+    const ids = utterances.map((u) => u.id);
+    searchEngine
+      .findMatching(activeSearch, year, ids)
+      .then((matchingIds) => {
+        if (!cancelled) {
+          setMatching({ search: activeSearch, checked: new Set(ids), ids: matchingIds });
         }
-        console.log('No previous female speaker utterance found');
-      }
-    } catch (error) {
-      console.error('Failed to navigate to previous female utterance:', error);
-    }
-  };
+      })
+      .catch((error) => console.error('Failed to check matching utterances:', error));
 
-  // Navigate to next female speaker utterance
-  const handleNextFemale = async () => {
-    if (!utteranceId) return;
+    return () => {
+      cancelled = true;
+    };
+  }, [year, utterances, activeSearch, dbLoading]);
 
-    try {
-      const nextFemale = await getNextFemaleUtterance(year, utteranceId);
-      if (nextFemale) {
-        // Found next female speaker in same year
-        navigate(`/${year}/${nextFemale.id}`);
-      } else {
-        // No next female speaker in this year - try future years
-        // Keep trying later years until we find one with female speakers
-        for (let tryYear = year + 1; tryYear <= 2024; tryYear++) {
-          try {
-            const firstFemaleOfNextYear = await getFirstFemaleUtterance(tryYear);
-            if (firstFemaleOfNextYear) {
-              navigate(`/${tryYear}/${firstFemaleOfNextYear.id}`);
-              return;
-            }
-          } catch (error) {
-            // Year database not available, continue to next year
-            continue;
-          }
-        }
-        console.log('No next female speaker utterance found');
-      }
-    } catch (error) {
-      console.error('Failed to navigate to next female utterance:', error);
-    }
-  };
+  // A hit is stepped to afresh in every utterance opened
+  useEffect(() => {
+    setActiveHit(null);
+  }, [utteranceId]);
+
+  // After jumping to another match, step to its first (or last) hit
+  useEffect(() => {
+    const direction = hitAfterJumpRef.current;
+    if (!direction || !utteranceId || !hits.has(utteranceId)) return;
+
+    hitAfterJumpRef.current = null;
+    const count = hits.get(utteranceId)!.length;
+    if (count === 0) return;
+    setActiveHit({ utteranceId, index: direction === 'next' ? 0 : count - 1 });
+  }, [utteranceId, hits]);
+
+  // Bring the hit stepped to into view
+  useEffect(() => {
+    if (!activeHit) return;
+
+    const timeoutId = setTimeout(() => {
+      const marks = utteranceRefs.current.get(activeHit.utteranceId)?.querySelectorAll('mark');
+      marks?.[activeHit.index]?.scrollIntoView({ behavior: 'smooth', block: 'center' });
+    }, 150);
+
+    return () => clearTimeout(timeoutId);
+  }, [activeHit]);
 
   // Scroll to selected utterance when URL changes
   useEffect(() => {
@@ -345,13 +473,27 @@ export function ReaderPage() {
   }, [utteranceId, utterances]);
 
   if (dbLoading === 'loading') {
-    return <LoadingSpinner message={`Loading database for year ${year}...`} />;
+    return dbStages ? (
+      <LoadingStepper
+        title={`Loading database for year ${year}`}
+        stages={dbStages}
+        onCancel={cancelDbLoad}
+      />
+    ) : (
+      <LoadingSpinner message={`Loading database for year ${year}...`} />
+    );
   }
 
   if (dbLoading === 'error') {
     return (
       <div className="text-center text-red-600">
         <p>Error: {dbError}</p>
+        <button
+          onClick={retryDbLoad}
+          className="mt-4 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700"
+        >
+          Try again
+        </button>
       </div>
     );
   }
@@ -384,9 +526,24 @@ export function ReaderPage() {
               <span>←</span>
               <span>Exchange</span>
             </button>
-            <p className="text-gray-600 font-medium">
-              Parliamentary Debate Reader
-            </p>
+            {exchangePosition && exchangeCount !== null ? (
+              <p
+                className="text-gray-600 font-medium text-center"
+                title={exchangePosition.exchange.participants.join(', ')}
+              >
+                Exchange {exchangePosition.exchange.number.toLocaleString()} of {exchangeCount.toLocaleString()}
+                <span className="text-gray-400 mx-2">·</span>
+                Utterance {exchangePosition.position} of {exchangePosition.exchange.length}
+                <span className="block text-xs text-gray-500 font-normal">
+                  {exchangePosition.exchange.participants.length} speaker
+                  {exchangePosition.exchange.participants.length === 1 ? '' : 's'}
+                </span>
+              </p>
+            ) : (
+              <p className="text-gray-600 font-medium">
+                Parliamentary Debate Reader
+              </p>
+            )}
             <button
               onClick={handleNext}
               className="px-4 py-1 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors flex items-center gap-2"
@@ -396,44 +553,50 @@ export function ReaderPage() {
             </button>
           </div>
 
-          {/* Kvinna Navigation */}
-          <div className="flex justify-between items-center mb-2">
-            <button
-              onClick={handlePreviousKvinna}
-              className="px-3 py-0.5 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors flex items-center gap-2 text-sm"
+          {/* Filter Navigation */}
+          <div className="space-y-2">
+            <MatchNavigator
+              label="Kvinna"
+              buttonClassName="bg-purple-600 hover:bg-purple-700"
+              onPrevious={() => jumpToMatch(KVINNA_TAGGED, 'previous')}
+              onNext={() => jumpToMatch(KVINNA_TAGGED, 'next')}
             >
-              <span>←</span>
-              <span>Kvinna</span>
-            </button>
-            <span className="text-sm text-gray-500">{utteranceId}</span>
-            <button
-              onClick={handleNextKvinna}
-              className="px-3 py-0.5 bg-purple-600 text-white rounded-lg hover:bg-purple-700 transition-colors flex items-center gap-2 text-sm"
+              <span className="text-sm text-gray-500">{utteranceId}</span>
+            </MatchNavigator>
+
+            <MatchNavigator
+              label="♀ Speaker"
+              buttonClassName="bg-pink-600 hover:bg-pink-700"
+              onPrevious={() => jumpToMatch(FEMALE_SPEAKER, 'previous')}
+              onNext={() => jumpToMatch(FEMALE_SPEAKER, 'next')}
             >
-              <span>Kvinna</span>
-              <span>→</span>
-            </button>
-          </div>
-
-          {/* Female Speaker Navigation */}
-          <div className="flex justify-between items-center">
-            <button
-              onClick={handlePreviousFemale}
-              className="px-3 py-0.5 bg-pink-600 text-white rounded-lg hover:bg-pink-700 transition-colors flex items-center gap-2 text-sm"
-            >
-              <span>←</span>
-              <span>♀ Speaker</span>
-            </button>
-            <span className="text-sm text-gray-500">{utterances.find(u => u.id === utteranceId)?.date
-              ? formatDate(utterances.find(u => u.id === utteranceId)!.date)
-              : `Year: ${year}`}</span>
-            <button
-              onClick={handleNextFemale}
-              className="px-3 py-0.5 bg-pink-600 text-white rounded-lg hover:bg-pink-700 transition-colors flex items-center gap-2 text-sm"
-            >
-              <span>♀ Speaker</span>
-              <span>→</span>
-            </button>
+              <span className="text-sm text-gray-500">{utterances.find(u => u.id === utteranceId)?.date
+                ? formatDate(utterances.find(u => u.id === utteranceId)!.date)
+                : `Year: ${year}`}</span>
+            </MatchNavigator>
+
+            {activeSearch && (
+              <MatchNavigator
+                label={highlighter ? 'Hit' : 'Match'}
+                title={describeMatchCriteria(activeSearch)}
+                buttonClassName="bg-green-600 hover:bg-green-700"
+                onPrevious={() => stepHit('previous')}
+                onNext={() => stepHit('next')}
+              >
+                <span className="text-sm text-gray-500 truncate mx-2">
+                  {resultsUrl && (
+                    <Link
+                      to={resultsUrl}
+                      state={{ restoreScroll: true } satisfies SearchLocationState}
+                      className="text-blue-600 hover:text-blue-800 mr-2"
+                    >
+                      ← Back to results
+                    </Link>
+                  )}
+                  {describeMatchCriteria(activeSearch)}
+                </span>
+              </MatchNavigator>
+            )}
           </div>
         </div>
       </div>
@@ -465,6 +628,8 @@ export function ReaderPage() {
             <UtteranceCard
               utterance={utterance}
               highlighted={utterance.id === utteranceId}
+              hits={hits.get(utterance.id)}
+              activeHit={activeHit?.utteranceId === utterance.id ? activeHit.index : undefined}
             />
           </div>
         ))}
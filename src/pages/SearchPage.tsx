@@ -1,23 +1,70 @@
-import { useState, useEffect } from 'react';
-import { useSearchParams, Link } from 'react-router-dom';
+import { useState, useEffect, useMemo, useRef } from 'react';
+import { useSearchParams, useLocation, Link } from 'react-router-dom';
 import { useDatabase } from '@/hooks/useDatabase';
+import { useManifest } from '@/hooks/useManifest';
+import { useOfflineStatus } from '@/hooks/useOfflineStatus';
+import { useDebouncedValue } from '@/hooks/useDebouncedValue';
 import { searchEngine } from '@/lib/search/SearchEngine';
-import { getParties } from '@/lib/database/queries';
+import { formatQuery, parseQuery } from '@/lib/search/QueryParser';
+import { getDateRange, getSittingDays } from '@/lib/database/queries';
 import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { LoadingStepper } from '@/components/common/LoadingStepper';
+import { DateRangePicker } from '@/components/search/DateRangePicker';
+import { FacetSidebar } from '@/components/search/FacetSidebar';
+import { Pagination } from '@/components/search/Pagination';
+import { SpellingRulesEditor } from '@/components/search/SpellingRulesEditor';
+import { Snippet } from '@/components/search/Snippet';
 import { formatDate, truncateText } from '@/lib/utils/urlHelpers';
-import type { SearchResult } from '@/types/search';
+import { config } from '@/lib/utils/config';
+import type {
+  SearchCursor,
+  SearchFacets,
+  SearchResult,
+  SearchResultPage,
+  SearchSort,
+  YearSearchProgress,
+} from '@/types/search';
+import type { ReaderLocationState, SearchLocationState } from '@/types/app';
 
 export function SearchPage() {
   const [searchParams, setSearchParams] = useSearchParams();
   const year = parseInt(searchParams.get('year') || '1920');
+  const yearTo = Math.max(year, parseInt(searchParams.get('yearTo') || '') || year);
+  const isRange = yearTo > year;
+  const page = Math.max(1, parseInt(searchParams.get('page') || '1') || 1);
+  const location = useLocation();
+  // Scroll position is restored once, when coming back from the reader
+  const restoreScrollRef = useRef(
+    Boolean((location.state as SearchLocationState | null)?.restoreScroll)
+  );
 
-  const { loading: dbLoading, error: dbError } = useDatabase(year);
+  const {
+    loading: dbLoading,
+    error: dbError,
+    stages: dbStages,
+    cancel: cancelDbLoad,
+    retry: retryDbLoad,
+  } = useDatabase(year);
+  const { years: availableYears } = useManifest();
+  const { isYearAvailable } = useOfflineStatus();
   const [searching, setSearching] = useState(false);
   const [results, setResults] = useState<SearchResult[]>([]);
-  const [parties, setParties] = useState<string[]>([]);
+  const [facets, setFacets] = useState<SearchFacets | null>(null);
+  const [dateRange, setDateRange] = useState<{ min: number; max: number } | null>(null);
+  const [sittingDays, setSittingDays] = useState<Set<number>>(new Set());
+  const [yearProgress, setYearProgress] = useState<Map<number, YearSearchProgress>>(new Map());
+  const [pageInfo, setPageInfo] = useState<Omit<SearchResultPage, 'results'> | null>(null);
+  // Cursor to continue from when moving to the next page
+  const cursorRef = useRef<{ page: number; cursor: SearchCursor } | null>(null);
+  // Criteria of the last search, to start from page 1 when they change
+  const criteriaRef = useRef<string | null>(null);
 
   // Form state
+  const [fromYear, setFromYear] = useState(year);
+  const [toYear, setToYear] = useState(yearTo);
   const [query, setQuery] = useState(searchParams.get('query') || '');
+  // Searched once typing pauses, since a range search may download whole years
+  const debouncedQuery = useDebouncedValue(query, config.searchDebounceMs);
   const [selectedParties, setSelectedParties] = useState<string[]>(
     searchParams.getAll('party')
   );
@@ -37,14 +84,110 @@ export function SearchPage() {
     searchParams.get('speaker') ? parseInt(searchParams.get('speaker')!) : undefined
   );
   const [speakerName, setSpeakerName] = useState<string>('');
+  const [dateFrom, setDateFrom] = useState<number | undefined>(
+    parseInt(searchParams.get('dateFrom') || '') || undefined
+  );
+  const [dateTo, setDateTo] = useState<number | undefined>(
+    parseInt(searchParams.get('dateTo') || '') || undefined
+  );
+  const [sort, setSort] = useState<SearchSort>(
+    searchParams.get('sort') === 'date' ? 'date' : 'relevance'
+  );
+  const [normalize, setNormalize] = useState(searchParams.get('normalize') === '1');
+  const [stem, setStem] = useState(searchParams.get('stem') === '1');
+  const [showRules, setShowRules] = useState(false);
+  // Bumped when the user edits the spelling rules, to search again
+  const [rulesVersion, setRulesVersion] = useState(0);
 
-  // Load parties when database is ready
-  useEffect(() => {
-    if (dbLoading === 'success') {
-      getParties(year).then(setParties);
+  // Validate the query as it is typed
+  const { queryError, interpretedQuery } = useMemo(() => {
+    try {
+      const ast = parseQuery(query);
+      return { queryError: null, interpretedQuery: ast ? formatQuery(ast) : null };
+    } catch (error) {
+      return {
+        queryError: error instanceof Error ? error.message : 'Invalid query',
+        interpretedQuery: null,
+      };
     }
+  }, [query]);
+
+  // Load the year's date range and sitting days for the date picker
+  useEffect(() => {
+    if (dbLoading !== 'success') return;
+    getDateRange(year).then(setDateRange);
+    getSittingDays(year).then((days) => setSittingDays(new Set(days)));
   }, [year, dbLoading]);
 
+  // A range shows the facet counts of all its years so far
+  const shownFacets = useMemo(() => {
+    if (!isRange) return facets;
+    const yearFacets = Array.from(yearProgress.values()).flatMap((progress) =>
+      progress.facets ? [progress.facets] : []
+    );
+    return yearFacets.length > 0 ? searchEngine.mergeFacets(yearFacets) : null;
+  }, [isRange, facets, yearProgress]);
+
+  // The month facet is selected when the date range is exactly one month
+  const selectedMonth =
+    dateFrom && dateTo && dateFrom % 100 === 1 && dateTo === dateFrom + 30
+      ? Math.floor(dateFrom / 100)
+      : undefined;
+
+  /**
+   * URL parameters of what the search matches (see parseMatchCriteria)
+   * @param dates Date range to include
+   */
+  const buildMatchParams = (dates: { dateFrom?: number; dateTo?: number } = { dateFrom, dateTo }) => {
+    const params = new URLSearchParams();
+    if (query) params.set('query', query);
+    if (query && normalize) params.set('normalize', '1');
+    if (query && stem) params.set('stem', '1');
+    selectedParties.forEach((p) => params.append('party', p));
+    if (selectedGender) params.set('gender', selectedGender);
+    if (selectedSpeaker) params.set('speaker', selectedSpeaker.toString());
+    if (kvinna1 !== undefined) params.set('kvinna_1', kvinna1 ? '1' : '0');
+    if (kvinna2 !== undefined) params.set('kvinna_2', kvinna2 ? '1' : '0');
+    if (kvinna3 !== undefined) params.set('kvinna_3', kvinna3 ? '1' : '0');
+    if (dates.dateFrom) params.set('dateFrom', dates.dateFrom.toString());
+    if (dates.dateTo) params.set('dateTo', dates.dateTo.toString());
+    return params;
+  };
+
+  // The search is carried into the reader, to jump between its matches there
+  const matchQuery = buildMatchParams().toString();
+
+  // These results, for the reader to come back to
+  const resultsParams = new URLSearchParams();
+  resultsParams.set('year', year.toString());
+  if (isRange) resultsParams.set('yearTo', yearTo.toString());
+  if (query && sort === 'date') resultsParams.set('sort', sort);
+  buildMatchParams().forEach((value, key) => resultsParams.append(key, value));
+  if (page > 1) resultsParams.set('page', page.toString());
+  const readerState: ReaderLocationState = { resultsUrl: `/search?${resultsParams}` };
+
+  const rememberScroll = () => {
+    sessionStorage.setItem(
+      config.resultsScrollStorageKey,
+      JSON.stringify({ url: readerState.resultsUrl, scrollY: window.scrollY })
+    );
+  };
+
+  // Back from the reader: scroll to where the result was opened once the results are in
+  useEffect(() => {
+    if (!restoreScrollRef.current || searching || results.length === 0) return;
+    restoreScrollRef.current = false;
+
+    try {
+      const saved = JSON.parse(sessionStorage.getItem(config.resultsScrollStorageKey) ?? 'null');
+      if (saved && saved.url === `${location.pathname}${location.search}`) {
+        window.scrollTo(0, saved.scrollY);
+      }
+    } catch {
+      // Nothing usable saved
+    }
+  }, [searching, results]);
+
   // Get speaker name from results
   useEffect(() => {
     if (selectedSpeaker && results.length > 0) {
@@ -53,55 +196,161 @@ export function SearchPage() {
     }
   }, [selectedSpeaker, results]);
 
+  const setPageParam = (nextPage: number, replace = false) => {
+    setSearchParams(
+      (prev) => {
+        const params = new URLSearchParams(prev);
+        if (nextPage > 1) params.set('page', nextPage.toString());
+        else params.delete('page');
+        return params;
+      },
+      { replace }
+    );
+  };
+
   // Perform search
   useEffect(() => {
-    if (dbLoading !== 'success') return;
+    // Still typing: a running search is cancelled, the next waits for the pause
+    if (dbLoading !== 'success' || queryError || query !== debouncedQuery) return;
+
+    const filters = {
+      query: query || undefined,
+      party: selectedParties.length > 0 ? selectedParties : undefined,
+      gender: selectedGender,
+      speaker: selectedSpeaker,
+      kvinna_1: kvinna1,
+      kvinna_2: kvinna2,
+      kvinna_3: kvinna3,
+      dateFrom,
+      dateTo,
+      sort,
+      normalize,
+      stem,
+    };
+
+    // New criteria start again from the first page
+    const criteria = JSON.stringify({ year, yearTo, filters, rulesVersion });
+    const criteriaChanged = criteriaRef.current !== null && criteriaRef.current !== criteria;
+    criteriaRef.current = criteria;
+    if (criteriaChanged && page !== 1) {
+      setPageParam(1, true);
+      return;
+    }
+
+    // Cancel a still-running search when the criteria change
+    const controller = new AbortController();
 
     const performSearch = async () => {
       setSearching(true);
       try {
-        const searchResults = await searchEngine.search({
-          year,
-          query: query || undefined,
-          party: selectedParties.length > 0 ? selectedParties : undefined,
-          gender: selectedGender,
-          speaker: selectedSpeaker,
-          kvinna_1: kvinna1,
-          kvinna_2: kvinna2,
-          kvinna_3: kvinna3,
-        });
-        setResults(searchResults);
+        if (isRange) {
+          // Stream results in as each year finishes
+          setResults([]);
+          setPageInfo(null);
+          setYearProgress(new Map());
+          const { results: pageResults, ...info } = await searchEngine.searchYears(
+            { ...filters, page },
+            { start: year, end: yearTo },
+            (progress) => {
+              setYearProgress((prev) => new Map(prev).set(progress.year, progress));
+              // Years arrive in date order, and their results are sorted by date
+              if (progress.state === 'done' && progress.results.length > 0) {
+                setResults((prev) => [...prev, ...progress.results]);
+              }
+            },
+            controller.signal
+          );
+          setResults(pageResults);
+          setPageInfo(info);
+        } else {
+          const after = cursorRef.current?.page === page ? cursorRef.current.cursor : undefined;
+          const { results: pageResults, ...info } = await searchEngine.searchPage(
+            { year, ...filters, page, after },
+            controller.signal
+          );
+          setResults(pageResults);
+          setPageInfo(info);
+          setFacets(await searchEngine.facets({ year, ...filters }, controller.signal));
+        }
+        setSearching(false);
       } catch (error) {
+        if (error instanceof DOMException && error.name === 'AbortError') return;
         console.error('Search failed:', error);
-      } finally {
         setSearching(false);
       }
     };
 
     performSearch();
-  }, [year, query, selectedParties, selectedGender, selectedSpeaker, kvinna1, kvinna2, kvinna3, dbLoading]);
+
+    return () => controller.abort();
+  }, [year, yearTo, isRange, query, debouncedQuery, selectedParties, selectedGender, selectedSpeaker, kvinna1, kvinna2, kvinna3, dateFrom, dateTo, sort, normalize, stem, rulesVersion, page, queryError, dbLoading]);
+
+  const handlePageChange = (nextPage: number) => {
+    // The next page can continue from this page's last result
+    cursorRef.current =
+      nextPage === (pageInfo?.page ?? page) + 1 && pageInfo?.nextCursor
+        ? { page: nextPage, cursor: pageInfo.nextCursor }
+        : null;
+    setPageParam(nextPage);
+    window.scrollTo(0, 0);
+  };
+
+  const handleDateChange = (from: number | undefined, to: number | undefined) => {
+    setDateFrom(from);
+    setDateTo(to);
+    setSearchParams(
+      (prev) => {
+        const params = new URLSearchParams(prev);
+        if (from) params.set('dateFrom', from.toString());
+        else params.delete('dateFrom');
+        if (to) params.set('dateTo', to.toString());
+        else params.delete('dateTo');
+        return params;
+      },
+      { replace: true }
+    );
+  };
 
   const handleSearch = () => {
+    // Dates outside the new years would match nothing
+    const inYears = (date: number | undefined) =>
+      date !== undefined && Math.floor(date / 10000) >= fromYear && Math.floor(date / 10000) <= toYear;
+    if (!inYears(dateFrom)) setDateFrom(undefined);
+    if (!inYears(dateTo)) setDateTo(undefined);
+
     const params = new URLSearchParams();
-    params.set('year', year.toString());
-    if (query) params.set('query', query);
-    selectedParties.forEach((p) => params.append('party', p));
-    if (selectedGender) params.set('gender', selectedGender);
-    if (selectedSpeaker) params.set('speaker', selectedSpeaker.toString());
-    if (kvinna1 !== undefined) params.set('kvinna_1', kvinna1 ? '1' : '0');
-    if (kvinna2 !== undefined) params.set('kvinna_2', kvinna2 ? '1' : '0');
-    if (kvinna3 !== undefined) params.set('kvinna_3', kvinna3 ? '1' : '0');
+    params.set('year', fromYear.toString());
+    if (toYear > fromYear) params.set('yearTo', toYear.toString());
+    if (query && sort === 'date') params.set('sort', sort);
+    buildMatchParams({
+      dateFrom: inYears(dateFrom) ? dateFrom : undefined,
+      dateTo: inYears(dateTo) ? dateTo : undefined,
+    }).forEach((value, key) => params.append(key, value));
     setSearchParams(params);
   };
 
   if (dbLoading === 'loading') {
-    return <LoadingSpinner message={`Loading database for year ${year}...`} />;
+    return dbStages ? (
+      <LoadingStepper
+        title={`Loading database for year ${year}`}
+        stages={dbStages}
+        onCancel={cancelDbLoad}
+      />
+    ) : (
+      <LoadingSpinner message={`Loading database for year ${year}...`} />
+    );
   }
 
   if (dbLoading === 'error') {
     return (
       <div className="text-center text-red-600">
         <p>Error: {dbError}</p>
+        <button
+          onClick={retryDbLoad}
+          className="mt-4 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700"
+        >
+          Try again
+        </button>
       </div>
     );
   }
@@ -109,7 +358,7 @@ export function SearchPage() {
   return (
     <div className="max-w-6xl mx-auto">
       <h1 className="text-3xl font-bold text-gray-800 mb-6">
-        Search Parliamentary Debates - {year}
+        Search Parliamentary Debates - {isRange ? `${year}–${yearTo}` : year}
       </h1>
 
       {/* Search Form */}
@@ -123,31 +372,112 @@ export function SearchPage() {
             value={query}
             onChange={(e) => setQuery(e.target.value)}
             onKeyPress={(e) => e.key === 'Enter' && handleSearch()}
-            placeholder="Enter search terms..."
-            className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            placeholder='Enter search terms, e.g. "allmän rösträtt" kvinn* -skatt'
+            className={`w-full px-4 py-2 border rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent ${
+              queryError ? 'border-red-400' : 'border-gray-300'
+            }`}
           />
+          {queryError ? (
+            <p className="mt-1 text-sm text-red-600">{queryError}</p>
+          ) : (
+            <p className="mt-1 text-xs text-gray-500">
+              {interpretedQuery && interpretedQuery !== query.trim()
+                ? `Searching for: ${interpretedQuery}. `
+                : ''}
+              Use "quotes" for phrases, OR for alternatives, -word to exclude, word* for prefixes and ( ) to group.
+            </p>
+          )}
+          <div className="mt-2 flex items-center gap-4 text-sm text-gray-700">
+            <span>Sort by:</span>
+            <label
+              className={`flex items-center ${isRange ? 'text-gray-400' : ''}`}
+              title={isRange ? 'Relevance cannot be compared between years; ranges are sorted by date' : undefined}
+            >
+              <input
+                type="radio"
+                checked={sort === 'relevance' && !isRange}
+                onChange={() => setSort('relevance')}
+                disabled={isRange}
+                className="mr-1"
+              />
+              Relevance
+            </label>
+            <label className="flex items-center">
+              <input
+                type="radio"
+                checked={sort === 'date' || isRange}
+                onChange={() => setSort('date')}
+                className="mr-1"
+              />
+              Date
+            </label>
+          </div>
+          <div className="mt-2 flex items-center gap-4 text-sm text-gray-700">
+            <label className="flex items-center">
+              <input
+                type="checkbox"
+                checked={normalize}
+                onChange={(e) => setNormalize(e.target.checked)}
+                className="mr-1"
+              />
+              Match historical spellings (qvinna, hvad, af)
+            </label>
+            <label className="flex items-center" title="Common words such as och and att are ignored">
+              <input
+                type="checkbox"
+                checked={stem}
+                onChange={(e) => setStem(e.target.checked)}
+                className="mr-1"
+              />
+              Match inflections (riksdag, riksdagen, riksdagar)
+            </label>
+            <button
+              onClick={() => setShowRules(!showRules)}
+              className="text-blue-600 hover:text-blue-800"
+            >
+              {showRules ? 'Hide spelling rules' : 'Edit spelling rules'}
+            </button>
+          </div>
+          {showRules && (
+            <SpellingRulesEditor onChange={() => setRulesVersion((version) => version + 1)} />
+          )}
         </div>
 
         <div className="grid grid-cols-1 md:grid-cols-2 gap-4 mb-4">
-          {/* Party Filter */}
+          {/* Year Range */}
           <div>
             <label className="block text-sm font-medium text-gray-700 mb-2">
-              Party
+              From Year
             </label>
             <select
-              multiple
-              value={selectedParties}
-              onChange={(e) =>
-                setSelectedParties(
-                  Array.from(e.target.selectedOptions, (option) => option.value)
-                )
-              }
+              value={fromYear}
+              onChange={(e) => {
+                const value = parseInt(e.target.value);
+                setFromYear(value);
+                if (toYear < value) setToYear(value);
+              }}
               className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
-              size={5}
             >
-              {parties.map((party) => (
-                <option key={party} value={party}>
-                  {party}
+              {availableYears.map((y) => (
+                <option key={y} value={y} disabled={!isYearAvailable(y)}>
+                  {y}
+                </option>
+              ))}
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-700 mb-2">
+              To Year
+            </label>
+            <select
+              value={toYear}
+              onChange={(e) => setToYear(parseInt(e.target.value))}
+              className="w-full px-4 py-2 border border-gray-300 rounded-lg focus:ring-2 focus:ring-blue-500 focus:border-transparent"
+            >
+              {availableYears.filter((y) => y >= fromYear).map((y) => (
+                <option key={y} value={y} disabled={!isYearAvailable(y)}>
+                  {y}
                 </option>
               ))}
             </select>
@@ -210,6 +540,24 @@ export function SearchPage() {
               </label>
             </div>
           </div>
+
+          {/* Date Range */}
+          {!isRange && dateRange && (
+            <div>
+              <label className="block text-sm font-medium text-gray-700 mb-2">
+                Dates in {year} (sitting days only)
+              </label>
+              <DateRangePicker
+                key={year}
+                min={dateRange.min}
+                max={dateRange.max}
+                sittingDays={sittingDays}
+                dateFrom={dateFrom}
+                dateTo={dateTo}
+                onChange={handleDateChange}
+              />
+            </div>
+          )}
         </div>
 
         <button
@@ -238,62 +586,168 @@ export function SearchPage() {
         </div>
       )}
 
-      {/* Results */}
-      <div className="bg-white rounded-lg shadow-md p-6">
-        <h2 className="text-xl font-semibold text-gray-800 mb-4">
-          Search Results ({results.length})
-        </h2>
+      {/* Date Filter Display */}
+      {(dateFrom || dateTo) && (
+        <div className="bg-blue-50 border border-blue-200 rounded-lg p-4 mb-6 flex items-center justify-between">
+          <span className="text-sm text-blue-800">
+            Filtering by date:{' '}
+            <strong>
+              {dateFrom ? formatDate(dateFrom) : '…'} – {dateTo ? formatDate(dateTo) : '…'}
+            </strong>
+          </span>
+          <button
+            onClick={() => handleDateChange(undefined, undefined)}
+            className="text-blue-600 hover:text-blue-800 text-sm font-semibold"
+          >
+            ✕ Clear
+          </button>
+        </div>
+      )}
 
-        {searching && <LoadingSpinner message="Searching..." />}
+      {/* Per-year Progress */}
+      {isRange && yearProgress.size > 0 && (
+        <div className="bg-white rounded-lg shadow-md p-6 mb-6">
+          <h2 className="text-lg font-semibold text-gray-800 mb-3">
+            Years
+          </h2>
+          <div className="grid grid-cols-3 sm:grid-cols-5 md:grid-cols-8 gap-2">
+            {Array.from(yearProgress.values()).map((progress) => (
+              <div
+                key={progress.year}
+                title={progress.error}
+                className={`border rounded p-2 text-center text-sm ${
+                  progress.state === 'done'
+                    ? 'border-green-300 bg-green-50'
+                    : progress.state === 'error'
+                    ? 'border-red-300 bg-red-50'
+                    : progress.state === 'pending'
+                    ? 'border-gray-200 text-gray-400'
+                    : 'border-blue-300 bg-blue-50'
+                }`}
+              >
+                <div className="font-semibold">{progress.year}</div>
+                <div className="text-xs">
+                  {progress.state === 'done' && `${progress.hitCount} hits`}
+                  {progress.state === 'loading' && `${progress.progress}%`}
+                  {progress.state === 'searching' && 'Searching...'}
+                  {progress.state === 'pending' && 'Waiting'}
+                  {progress.state === 'error' && 'Unavailable'}
+                </div>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
 
-        {!searching && results.length === 0 && (
-          <p className="text-gray-600 text-center py-8">
-            No results found. Try adjusting your search criteria.
-          </p>
+      <div className={`grid grid-cols-1 gap-6 ${shownFacets ? 'md:grid-cols-4' : ''}`}>
+        {/* Facets */}
+        {shownFacets && (
+          <FacetSidebar
+            facets={shownFacets}
+            selectedParties={selectedParties}
+            selectedGender={selectedGender}
+            selectedSpeaker={selectedSpeaker}
+            selectedMonth={selectedMonth}
+            onToggleParty={(party) =>
+              setSelectedParties((prev) =>
+                prev.includes(party) ? prev.filter((p) => p !== party) : [...prev, party]
+              )
+            }
+            onSelectGender={setSelectedGender}
+            onSelectSpeaker={(speaker) => {
+              setSelectedSpeaker(speaker?.id);
+              setSpeakerName(speaker?.name ?? '');
+            }}
+            onSelectMonth={(month) =>
+              handleDateChange(
+                month ? month * 100 + 1 : undefined,
+                month ? month * 100 + 31 : undefined
+              )
+            }
+          />
         )}
 
-        <div className="space-y-4">
-          {results.map((result) => (
-            <Link
-              key={result.id}
-              to={`/${year}/${result.id}`}
-              className="block border border-gray-200 rounded-lg p-4 hover:border-blue-500 hover:shadow-md transition-all"
-            >
-              <div className="flex justify-between items-start mb-2">
-                <div className="font-semibold text-gray-800">
-                  {result.person_name}
-                  {result.person_party && (
-                    <span className="ml-2 text-sm text-gray-600">
-                      ({result.person_party})
+        {/* Results */}
+        <div className={`bg-white rounded-lg shadow-md p-6 ${shownFacets ? 'md:col-span-3' : ''}`}>
+          <h2 className="text-xl font-semibold text-gray-800 mb-4">
+            {/* While a range is being searched, count the years done so far */}
+            Search Results (
+            {pageInfo?.total ??
+              Array.from(yearProgress.values()).reduce((sum, p) => sum + p.hitCount, 0)}
+            )
+            {pageInfo && results.length > 0 && (
+              <span className="ml-2 text-sm font-normal text-gray-500">
+                showing {(pageInfo.page - 1) * config.searchPageSize + 1}–
+                {(pageInfo.page - 1) * config.searchPageSize + results.length}
+              </span>
+            )}
+          </h2>
+
+          {searching && <LoadingSpinner message="Searching..." />}
+
+          {!searching && results.length === 0 && (
+            <p className="text-gray-600 text-center py-8">
+              No results found. Try adjusting your search criteria.
+            </p>
+          )}
+
+          <div className="space-y-4">
+            {results.map((result) => (
+              <Link
+                key={result.id}
+                to={`/${result.year}/${result.id}${matchQuery ? `?${matchQuery}` : ''}`}
+                state={readerState}
+                onClick={rememberScroll}
+                className="block border border-gray-200 rounded-lg p-4 hover:border-blue-500 hover:shadow-md transition-all"
+              >
+                <div className="flex justify-between items-start mb-2">
+                  <div className="font-semibold text-gray-800">
+                    {result.person_name}
+                    {result.person_party && (
+                      <span className="ml-2 text-sm text-gray-600">
+                        ({result.person_party})
+                      </span>
+                    )}
+                  </div>
+                  <div className="text-sm text-gray-500">
+                    {formatDate(result.date)}
+                  </div>
+                </div>
+                <p className="text-gray-700">
+                  {result.snippet ? (
+                    <Snippet fragments={result.snippet} />
+                  ) : (
+                    truncateText(result.content, 200)
+                  )}
+                </p>
+                <div className="mt-2 flex gap-2">
+                  {result.kvinna_1 && (
+                    <span className="text-xs bg-purple-100 text-purple-800 px-2 py-1 rounded">
+                      1
+                    </span>
+                  )}
+                  {result.kvinna_2 && (
+                    <span className="text-xs bg-pink-100 text-pink-800 px-2 py-1 rounded">
+                      2
+                    </span>
+                  )}
+                  {result.kvinna_3 && (
+                    <span className="text-xs bg-rose-100 text-rose-800 px-2 py-1 rounded">
+                      3
                     </span>
                   )}
                 </div>
-                <div className="text-sm text-gray-500">
-                  {formatDate(result.date)}
-                </div>
-              </div>
-              <p className="text-gray-700">
-                {result.snippet || truncateText(result.content, 200)}
-              </p>
-              <div className="mt-2 flex gap-2">
-                {result.kvinna_1 && (
-                  <span className="text-xs bg-purple-100 text-purple-800 px-2 py-1 rounded">
-                    1
-                  </span>
-                )}
-                {result.kvinna_2 && (
-                  <span className="text-xs bg-pink-100 text-pink-800 px-2 py-1 rounded">
-                    2
-                  </span>
-                )}
-                {result.kvinna_3 && (
-                  <span className="text-xs bg-rose-100 text-rose-800 px-2 py-1 rounded">
-                    3
-                  </span>
-                )}
-              </div>
-            </Link>
-          ))}
+              </Link>
+            ))}
+          </div>
+
+          {!searching && pageInfo && (
+            <Pagination
+              page={pageInfo.page}
+              pageCount={pageInfo.pageCount}
+              onPageChange={handlePageChange}
+            />
+          )}
         </div>
       </div>
     </div>
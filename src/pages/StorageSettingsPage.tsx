@@ -0,0 +1,365 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { useDatabaseContext } from '@/context/DatabaseContext';
+import { useManifest } from '@/hooks/useManifest';
+import { databaseManager } from '@/lib/database/DatabaseManager';
+import { getManifestChecksum } from '@/lib/database/ManifestLoader';
+import { LoadingSpinner } from '@/components/common/LoadingSpinner';
+import { config } from '@/lib/utils/config';
+import { formatBytes } from '@/lib/utils/urlHelpers';
+import type { CacheStats } from '@/types/worker';
+
+type DownloadState = 'queued' | 'downloading' | 'done' | 'cached' | 'cancelled' | 'error';
+
+interface DownloadItem {
+  year: number;
+  state: DownloadState;
+  progress: number;
+  error?: string;
+}
+
+const DOWNLOAD_LABELS: Record<DownloadState, string> = {
+  queued: 'Waiting',
+  downloading: 'Downloading',
+  done: 'Downloaded',
+  cached: 'Already cached',
+  cancelled: 'Cancelled',
+  error: 'Failed',
+};
+
+export function StorageSettingsPage() {
+  const { clearCache, memoryStatus } = useDatabaseContext();
+  const { manifest, years } = useManifest();
+  const [stats, setStats] = useState<CacheStats | null>(null);
+  const [estimate, setEstimate] = useState<StorageEstimate | null>(null);
+  const [persisted, setPersisted] = useState<boolean | null>(null);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [queue, setQueue] = useState<DownloadItem[]>([]);
+  const abortRef = useRef<AbortController | null>(null);
+
+  const storageSupported = typeof navigator !== 'undefined' && 'storage' in navigator;
+
+  const refresh = useCallback(async () => {
+    setStats(await databaseManager.getCacheStats());
+    if (storageSupported) {
+      setEstimate(await navigator.storage.estimate());
+      setPersisted(await navigator.storage.persisted());
+    }
+  }, [storageSupported]);
+
+  useEffect(() => {
+    refresh();
+  }, [refresh]);
+
+  // Stop the download queue when leaving the page
+  useEffect(() => () => abortRef.current?.abort(), []);
+
+  const handlePersist = async () => {
+    setPersisted(await navigator.storage.persist());
+  };
+
+  const handleEvict = async (year?: number) => {
+    await clearCache(year);
+    await refresh();
+  };
+
+  const toggleYear = (year: number) => {
+    setSelected((prev) => {
+      const next = new Set(prev);
+      if (next.has(year)) next.delete(year);
+      else next.add(year);
+      return next;
+    });
+  };
+
+  const handleDownload = async () => {
+    const downloadYears = [...selected].sort((a, b) => a - b);
+    const controller = new AbortController();
+    abortRef.current = controller;
+
+    const update = (year: number, item: Partial<DownloadItem>) =>
+      setQueue((prev) => prev.map((entry) => (entry.year === year ? { ...entry, ...item } : entry)));
+
+    setQueue(downloadYears.map((year) => ({ year, state: 'queued', progress: 0 })));
+    setSelected(new Set());
+
+    // One year at a time, so each gets the full bandwidth and memory
+    for (const year of downloadYears) {
+      if (controller.signal.aborted) {
+        update(year, { state: 'cancelled' });
+        continue;
+      }
+
+      update(year, { state: 'downloading' });
+      try {
+        const downloaded = await databaseManager.downloadDatabase(
+          year,
+          (progress) => {
+            if (progress.stage === 'download') update(year, { progress: progress.percentage });
+          },
+          controller.signal
+        );
+        update(year, { state: downloaded ? 'done' : 'cached', progress: 100 });
+      } catch (error) {
+        if (error instanceof DOMException && error.name === 'AbortError') {
+          update(year, { state: 'cancelled' });
+        } else {
+          update(year, {
+            state: 'error',
+            error: error instanceof Error ? error.message : 'Download failed',
+          });
+        }
+      }
+      await refresh();
+    }
+
+    abortRef.current = null;
+  };
+
+  if (!stats) {
+    return <LoadingSpinner message="Reading cache..." />;
+  }
+
+  const entries = [...stats.entries].sort((a, b) => a.year - b.year);
+  const cachedYears = new Set(entries.map((entry) => entry.year));
+  const downloading = queue.some((item) => item.state === 'queued' || item.state === 'downloading');
+
+  return (
+    <div className="max-w-4xl mx-auto space-y-6">
+      <h1 className="text-3xl font-bold text-gray-800">Offline Storage</h1>
+
+      {config.databaseLoadMode !== 'download' && (
+        <div className="bg-amber-50 border border-amber-200 rounded-lg p-4 text-sm text-amber-900">
+          Databases are currently read on demand from the server and are not stored in the
+          browser. Offline downloads are still kept for when full downloads are used.
+        </div>
+      )}
+
+      {/* Storage quota */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h2 className="text-xl font-semibold text-gray-800 mb-4">Browser Storage</h2>
+        {storageSupported && estimate ? (
+          <>
+            <p className="text-sm text-gray-700 mb-2">
+              Using {formatBytes(estimate.usage ?? 0)} of {formatBytes(estimate.quota ?? 0)} available
+              {' '}({formatBytes(stats.cacheSize)} of the {formatBytes(config.maxCacheBytes)} database
+              cache budget)
+            </p>
+            <div className="bg-gray-200 rounded-full h-2 mb-4">
+              <div
+                className="bg-blue-600 h-2 rounded-full"
+                style={{
+                  width: `${estimate.quota ? Math.min(100, ((estimate.usage ?? 0) / estimate.quota) * 100) : 0}%`,
+                }}
+              ></div>
+            </div>
+            <div className="flex items-center justify-between text-sm">
+              <span className="text-gray-700">
+                {persisted
+                  ? 'Storage is persistent: the browser will not clear it under storage pressure.'
+                  : 'Storage is best-effort: the browser may clear it when space runs low.'}
+              </span>
+              {!persisted && (
+                <button
+                  onClick={handlePersist}
+                  className="ml-4 bg-blue-600 text-white px-4 py-2 rounded-lg hover:bg-blue-700"
+                >
+                  Request persistent storage
+                </button>
+              )}
+            </div>
+          </>
+        ) : (
+          <p className="text-sm text-gray-600">
+            This browser does not report storage usage. Cached databases use{' '}
+            {formatBytes(stats.cacheSize)} of the {formatBytes(config.maxCacheBytes)} budget.
+          </p>
+        )}
+      </div>
+
+      {/* Databases in memory */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h2 className="text-xl font-semibold text-gray-800 mb-2">Open Databases</h2>
+        <p className="text-sm text-gray-700 mb-2">
+          {formatBytes(memoryStatus.used)} of the {formatBytes(memoryStatus.budget)} memory budget
+          {' '}in use. The least recently used years are closed beyond it.
+        </p>
+        {memoryStatus.databases.length === 0 ? (
+          <p className="text-sm text-gray-600">No databases are open.</p>
+        ) : (
+          <div className="flex flex-wrap gap-2">
+            {memoryStatus.databases.map((database) => (
+              <span
+                key={database.year}
+                title={database.inUse ? 'In use' : undefined}
+                className={`text-sm px-2 py-1 rounded border ${
+                  database.inUse ? 'border-blue-300 bg-blue-50' : 'border-gray-200'
+                }`}
+              >
+                {database.year} · {formatBytes(database.size)}
+              </span>
+            ))}
+          </div>
+        )}
+      </div>
+
+      {/* Cached years */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <div className="flex items-center justify-between mb-4">
+          <h2 className="text-xl font-semibold text-gray-800">Cached Years ({entries.length})</h2>
+          {entries.length > 0 && (
+            <button
+              onClick={() => handleEvict()}
+              className="text-sm text-red-600 hover:text-red-800 font-semibold"
+            >
+              Remove all
+            </button>
+          )}
+        </div>
+
+        <p className="text-sm text-gray-600 mb-4">
+          When the cache budget is reached, the least recently used years are removed first.
+        </p>
+
+        {entries.length === 0 ? (
+          <p className="text-sm text-gray-600">No databases are cached yet.</p>
+        ) : (
+          <table className="w-full text-sm">
+            <thead>
+              <tr className="text-left text-gray-500 border-b">
+                <th className="py-2 font-medium">Year</th>
+                <th className="py-2 font-medium">Size</th>
+                <th className="py-2 font-medium">Downloaded</th>
+                <th className="py-2 font-medium">Last used</th>
+                <th className="py-2 font-medium">Status</th>
+                <th></th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map((entry) => {
+                const published = manifest?.years.find((y) => y.year === entry.year);
+                const outdated =
+                  published && entry.checksum !== getManifestChecksum(published);
+
+                return (
+                  <tr key={entry.year} className="border-b last:border-0 text-gray-700">
+                    <td className="py-2 font-semibold">{entry.year}</td>
+                    <td className="py-2">{formatBytes(entry.size)}</td>
+                    <td className="py-2">{new Date(entry.downloaded).toLocaleString()}</td>
+                    <td className="py-2">{new Date(entry.timestamp).toLocaleString()}</td>
+                    <td className="py-2">
+                      {outdated ? (
+                        <span className="text-amber-700">Update available</span>
+                      ) : (
+                        <span className="text-green-700">Up to date</span>
+                      )}
+                    </td>
+                    <td className="py-2 text-right">
+                      <button
+                        onClick={() => handleEvict(entry.year)}
+                        className="text-red-600 hover:text-red-800"
+                      >
+                        Remove
+                      </button>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {/* Offline download */}
+      <div className="bg-white rounded-lg shadow-md p-6">
+        <h2 className="text-xl font-semibold text-gray-800 mb-2">Download for Offline Use</h2>
+        <p className="text-sm text-gray-600 mb-4">
+          Select years to store in the browser, so they open without a network connection.
+        </p>
+
+        <div className="grid grid-cols-4 sm:grid-cols-6 md:grid-cols-8 gap-2 mb-4">
+          {years.map((year) => {
+            const entry = manifest?.years.find((y) => y.year === year);
+            return (
+              <label
+                key={year}
+                title={entry ? formatBytes(entry.size) : undefined}
+                className={`flex items-center gap-1 border rounded p-2 text-sm ${
+                  cachedYears.has(year) ? 'border-green-300 bg-green-50 text-gray-500' : 'border-gray-200'
+                }`}
+              >
+                <input
+                  type="checkbox"
+                  checked={selected.has(year)}
+                  disabled={downloading || cachedYears.has(year)}
+                  onChange={() => toggleYear(year)}
+                />
+                {year}
+              </label>
+            );
+          })}
+        </div>
+
+        <div className="flex items-center gap-3">
+          <button
+            onClick={() =>
+              setSelected(new Set(years.filter((year) => !cachedYears.has(year))))
+            }
+            disabled={downloading}
+            className="text-sm text-blue-600 hover:text-blue-800 disabled:opacity-40"
+          >
+            Select all missing
+          </button>
+          <button
+            onClick={handleDownload}
+            disabled={downloading || selected.size === 0}
+            className="bg-blue-600 text-white px-4 py-2 rounded-lg font-semibold hover:bg-blue-700 disabled:opacity-40"
+          >
+            Download {selected.size > 0 ? `${selected.size} ` : ''}
+            {selected.size === 1 ? 'year' : 'years'}
+            {manifest && selected.size > 0 &&
+              ` (${formatBytes(
+                manifest.years
+                  .filter((entry) => selected.has(entry.year))
+                  .reduce((sum, entry) => sum + entry.size, 0)
+              )})`}
+          </button>
+          {downloading && (
+            <button
+              onClick={() => abortRef.current?.abort()}
+              className="text-sm text-red-600 hover:text-red-800 font-semibold"
+            >
+              Cancel
+            </button>
+          )}
+        </div>
+
+        {queue.length > 0 && (
+          <div className="mt-4 space-y-2">
+            {queue.map((item) => (
+              <div key={item.year} className="flex items-center gap-3 text-sm" title={item.error}>
+                <span className="w-12 font-semibold text-gray-700">{item.year}</span>
+                <div className="flex-1 bg-gray-200 rounded-full h-2">
+                  <div
+                    className={`h-2 rounded-full transition-all duration-300 ${
+                      item.state === 'error' ? 'bg-red-500' : 'bg-blue-600'
+                    }`}
+                    style={{ width: `${item.progress}%` }}
+                  ></div>
+                </div>
+                <span
+                  className={`w-32 text-right ${
+                    item.state === 'error' ? 'text-red-600' : 'text-gray-600'
+                  }`}
+                >
+                  {item.state === 'downloading'
+                    ? `${item.progress}%`
+                    : DOWNLOAD_LABELS[item.state]}
+                </span>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+}
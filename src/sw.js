@@ -0,0 +1,106 @@
+/**
+ * Service worker
+ * Precaches the built app shell (scripts, styles, the sql.js WebAssembly
+ * module and the bundled party colours) so ToK Reader opens without a
+ * network connection. The yearly databases live in IndexedDB and are not
+ * handled here.
+ *
+ * This file is a template: the build fills in the placeholders below
+ * (see the serviceWorker plugin in vite.config.ts) and emits it as sw.js.
+ */
+
+const VERSION = '__SW_VERSION__';
+const PRECACHE_URLS = __SW_PRECACHE__;
+
+const SHELL_CACHE = `tok-reader-shell-${VERSION}`;
+const MANIFEST_CACHE = 'tok-reader-manifest';
+
+// Paths are relative to the scope, which is the base the app is served from
+const scopeUrl = (path) => new URL(path, self.registration.scope).href;
+const INDEX_URL = scopeUrl('./');
+const PRECACHED = new Set(PRECACHE_URLS.map(scopeUrl));
+
+self.addEventListener('install', (event) => {
+  event.waitUntil(
+    caches
+      .open(SHELL_CACHE)
+      .then((cache) => cache.addAll(PRECACHE_URLS.map(scopeUrl)))
+      .then(() => self.skipWaiting())
+  );
+});
+
+self.addEventListener('activate', (event) => {
+  event.waitUntil(
+    caches
+      .keys()
+      .then((keys) =>
+        Promise.all(
+          keys
+            .filter((key) => key.startsWith('tok-reader-shell-') && key !== SHELL_CACHE)
+            .map((key) => caches.delete(key))
+        )
+      )
+      .then(() => self.clients.claim())
+  );
+});
+
+self.addEventListener('fetch', (event) => {
+  const request = event.request;
+  if (request.method !== 'GET') return;
+
+  // Every route of the single-page app is served by index.html, which replaces
+  // the 404.html redirect once the worker is installed
+  if (request.mode === 'navigate' && request.url.startsWith(self.registration.scope)) {
+    event.respondWith(navigate(request));
+    return;
+  }
+
+  if (PRECACHED.has(request.url)) {
+    event.respondWith(caches.match(request.url).then((cached) => cached || fetch(request)));
+    return;
+  }
+
+  // The corpus manifest names the years and their checksums;
+  // a stale copy is better than none when offline
+  if (new URL(request.url).pathname.endsWith('/manifest.json')) {
+    event.respondWith(networkFirst(request, MANIFEST_CACHE));
+  }
+
+  // Everything else, including the database downloads, goes to the network
+});
+
+/**
+ * Answer a navigation with the network when possible, the cached app shell otherwise
+ * @param {Request} request Navigation request
+ * @returns {Promise<Response>} Page response
+ */
+async function navigate(request) {
+  try {
+    const response = await fetch(request);
+    // Deep links are 404s on GitHub Pages; the app shell routes them instead
+    if (response.ok) return response;
+  } catch {
+    // Offline
+  }
+  const cached = await caches.match(INDEX_URL);
+  return cached || fetch(INDEX_URL);
+}
+
+/**
+ * Fetch from the network and keep a copy, falling back to the copy
+ * @param {Request} request Request
+ * @param {string} cacheName Cache holding the copy
+ * @returns {Promise<Response>} Response
+ */
+async function networkFirst(request, cacheName) {
+  const cache = await caches.open(cacheName);
+  try {
+    const response = await fetch(request);
+    if (response.ok) await cache.put(request.url, response.clone());
+    return response;
+  } catch (error) {
+    const cached = await cache.match(request.url);
+    if (cached) return cached;
+    throw error;
+  }
+}
@@ -1,23 +1,57 @@
-import type { Database } from './database';
+import type { LoadStage } from '@/lib/database/DatabaseLoader';
+import type { MemoryStatus } from './database';
 
 // Loading state for async operations
 export type LoadingState = 'idle' | 'loading' | 'success' | 'error';
 
+// Stages of loading a database in the order they run, with their labels
+export const LOAD_STAGES: { stage: LoadStage; label: string }[] = [
+  { stage: 'wasm', label: 'Starting SQLite engine' },
+  { stage: 'cache', label: 'Checking offline storage' },
+  { stage: 'download', label: 'Downloading' },
+  { stage: 'decompress', label: 'Decompressing' },
+  { stage: 'open', label: 'Opening database' },
+  { stage: 'index', label: 'Building search index' },
+];
+
+// Progress of one stage of loading a database
+export interface LoadStageProgress {
+  stage: LoadStage;
+  state: 'pending' | 'active' | 'done' | 'skipped' | 'error';
+  progress: number; // 0-100
+  startedAt?: number; // performance.now() when the stage began
+  duration?: number; // Milliseconds, once the stage is over
+}
+
 // Database loading progress
 export interface DatabaseLoadingProgress {
   year: number;
   state: LoadingState;
-  progress: number; // 0-100
+  progress: number; // 0-100, of the current stage
   message: string;
+  stages: LoadStageProgress[]; // In LOAD_STAGES order
   error?: string;
 }
 
 // Global database context state
 export interface DatabaseContextState {
-  loadedDatabases: Map<number, Database>;
+  loadedYears: number[];
   loadingStates: Map<number, DatabaseLoadingProgress>;
-  loadDatabase: (year: number) => Promise<Database>;
+  loadDatabase: (year: number, signal?: AbortSignal) => Promise<void>;
   clearCache: (year?: number) => Promise<void>;
+  updatedYears: number[]; // Years whose cached data was replaced by a newer release
+  memoryStatus: MemoryStatus; // Databases held in memory and their sizes
+  runtimeError: string | null; // Set when the SQLite runtime cannot start
+}
+
+// Router state of a reader opened from search results
+export interface ReaderLocationState {
+  resultsUrl: string; // Results page to go back to
+}
+
+// Router state of search results returned to from the reader
+export interface SearchLocationState {
+  restoreScroll: boolean; // Scroll back to where the result was clicked
 }
 
 // Year range
@@ -26,7 +60,8 @@ export interface YearRange {
   end: number;
 }
 
-// Available years in the dataset
+// Years in the dataset when the corpus manifest is unavailable
+// (see getAvailableYears in lib/database/ManifestLoader)
 export const AVAILABLE_YEARS = Array.from({ length: 41 }, (_, i) => 1900 + i);
 export const MIN_YEAR = 1900;
 export const MAX_YEAR = 1940;
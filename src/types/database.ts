@@ -29,6 +29,22 @@ export interface UtteranceWithPerson extends Utterance {
   person_party: string | null;
 }
 
+// An exchange (a chain of utterances linked by prev/next) from the exchange index
+export interface ExchangeSummary {
+  number: number; // 1-based, in reading order within the year
+  firstId: string;
+  lastId: string;
+  length: number; // Utterances in the exchange
+  date: number; // YYYYMMDD of the first utterance
+  participants: string[]; // Speaker names in order of first appearance
+}
+
+// Where an utterance sits in the exchange index
+export interface ExchangePosition {
+  exchange: ExchangeSummary;
+  position: number; // 1-based within the exchange
+}
+
 // sql.js Database type
 export type Database = SqlJsDatabase;
 
@@ -36,6 +52,77 @@ export type Database = SqlJsDatabase;
 export interface DatabaseCacheEntry {
   year: number;
   data: Uint8Array;
-  timestamp: number;
+  timestamp: number; // When the data was stored
+  version: string;
+  checksum: string | null; // Manifest checksum of the file the data came from
+}
+
+// Metadata of a database cache entry, kept apart from the data
+// so it is cheap to list and to update on every access
+export interface DatabaseCacheInfo {
+  year: number;
   version: string;
+  checksum: string | null;
+  size: number; // Bytes
+  downloaded: number; // When the file was downloaded (kept when it is re-stored with new indexes)
+  timestamp: number; // Last access, for LRU eviction
+}
+
+// Chunk of an interrupted download, kept to resume it with a Range request
+export interface PartialDownloadChunk {
+  year: number;
+  offset: number; // Byte offset of the chunk in the file
+  data: Uint8Array;
+  total: number; // Bytes of the whole file, 0 if unknown
+  validator: string; // ETag or Last-Modified of the file, sent as If-Range
+}
+
+// One year in the corpus manifest
+export interface ManifestYear {
+  year: number;
+  file: string; // File name relative to the database base URL
+  size: number; // Bytes of the published file
+  uncompressedSize?: number; // Bytes of the database once decompressed
+  sha256?: string; // Hex digest of the published file
+  etag?: string; // HTTP ETag of the published file
+  utterances: number;
+  speakers: number;
+}
+
+// Corpus manifest (manifest.json next to the yearly databases)
+export interface CorpusManifest {
+  release: string; // Data release version
+  years: ManifestYear[];
+}
+
+// Full-text index module available in a database
+export type FullTextModule = 'fts5' | 'fts4';
+
+// What the worker reports about a loaded database
+export interface DatabaseInfo {
+  year: number;
+  fullText: FullTextModule | null; // null: no index, search falls back to LIKE
+}
+
+// A database opened by the worker, queried asynchronously
+// (an in-memory sql.js database or a lazily fetched remote one)
+export interface QueryableDatabase {
+  readonly fullText: FullTextModule | null;
+  query(sql: string, params?: any[]): Promise<any[]>;
+  memoryUsage(): Promise<number>; // Bytes currently held in memory
+  close(): void;
+}
+
+// A database held in the worker's memory
+export interface LoadedDatabase {
+  year: number;
+  size: number; // Measured bytes in memory
+  inUse: boolean; // A query or index build is running on it
+}
+
+// Memory used by the databases held in the worker
+export interface MemoryStatus {
+  budget: number; // Bytes; least recently used databases are closed beyond it
+  used: number; // Bytes
+  databases: LoadedDatabase[]; // Least recently used first
 }
@@ -5,19 +5,94 @@ export interface SearchParams {
   year: number;
   query?: string;
   party?: string[];
-  gender?: string;
+  gender?: string | string[]; // Several values match any of them (spelling variants)
   speaker?: number;
+  kvinna?: boolean; // Any of the three kvinna tags
   kvinna_1?: boolean;
   kvinna_2?: boolean;
   kvinna_3?: boolean;
   dateFrom?: number;
   dateTo?: number;
+  sort?: SearchSort;
+  normalize?: boolean; // Match historical spelling variants (qvinna = kvinna)
+  stem?: boolean; // Match inflected forms (riksdag = riksdagen, riksdagar)
+  page?: number; // 1-based results page
+  after?: SearchCursor; // Last result of the previous page, for keyset pagination
 }
 
+// Position of a result in (date, id) order
+export interface SearchCursor {
+  date: number;
+  id: string;
+}
+
+// One page of search results
+export interface SearchResultPage {
+  results: SearchResult[];
+  total: number; // All matches, not only this page
+  page: number;
+  pageCount: number;
+  nextCursor: SearchCursor | null; // Set when results are in (date, id) order
+}
+
+// Result ordering: by bm25 relevance (needs a query and a full-text index) or by date
+export type SearchSort = 'relevance' | 'date';
+
 // Search result
 export interface SearchResult extends UtteranceWithPerson {
-  snippet?: string; // Context snippet with query highlighted
-  relevance?: number; // For ranking
+  snippet?: SnippetFragment[]; // Context around the densest matches, in text order
+  matchedVariants?: string[]; // Words of the original text that matched, e.g. "qvinna"
+  relevance?: number; // Negated bm25 score, higher is more relevant
+}
+
+// Part of a text around search matches, with the matched words marked
+export interface SnippetFragment {
+  text: string;
+  highlights: { start: number; end: number }[]; // Offsets into text
+  cutStart: boolean; // The text continues before the fragment
+  cutEnd: boolean; // The text continues after the fragment
+}
+
+// Number of matching utterances with one facet value
+export interface FacetCount<T> {
+  value: T;
+  count: number;
+}
+
+// Matching utterances broken down by filterable fields.
+// Each facet ignores its own filter, so all of its values stay selectable.
+export interface SearchFacets {
+  party: FacetCount<string>[];
+  gender: FacetCount<string>[];
+  speaker: (FacetCount<number> & { name: string; party: string | null })[]; // Top speakers
+  month: FacetCount<number>[]; // YYYYMM, in date order
+}
+
+// State of one year in a year-range search
+export type YearSearchState = 'pending' | 'loading' | 'searching' | 'done' | 'error';
+
+// Progress of one year in a year-range search
+export interface YearSearchProgress {
+  year: number;
+  state: YearSearchState;
+  progress: number; // Download progress 0-100
+  hitCount: number; // All matches in the year, not only the returned results
+  results: SearchResult[]; // Filled once the year is done
+  facets?: SearchFacets; // Filled once the year is done, if it has matches
+  error?: string;
+}
+
+// What a search matches, without the year or how results are ordered and paged
+export type MatchCriteria = Omit<SearchParams, 'year' | 'sort' | 'page' | 'after'>;
+
+// Which match to jump to: relative to an utterance, or at either end of the corpus
+export type MatchTarget = 'previous' | 'next' | 'first' | 'last';
+
+// An utterance to find the previous or next match from
+export interface MatchPosition {
+  year: number;
+  date: number;
+  id: string;
 }
 
 // Search filters state
@@ -30,3 +105,11 @@ export interface SearchFilters {
   dateFrom?: number;
   dateTo?: number;
 }
+
+// Parsed free-text query (see lib/search/QueryParser)
+export type QueryNode =
+  | { type: 'term'; value: string; prefix: boolean } // kvinna, kvinn*
+  | { type: 'phrase'; value: string } // "allmän rösträtt"
+  | { type: 'and'; children: QueryNode[] }
+  | { type: 'or'; children: QueryNode[] }
+  | { type: 'not'; child: QueryNode }; // -skatt, NOT skatt
@@ -0,0 +1,30 @@
+import type { LoadProgress } from '@/lib/database/DatabaseLoader';
+import type { AnalyzerOptions } from '@/lib/search/TextAnalyzer';
+import type { DatabaseCacheInfo, MemoryStatus } from './database';
+
+// Cache statistics reported by the database worker
+export interface CacheStats {
+  memoryCount: number;
+  cachedYears: number[];
+  cacheSize: number;
+  entries: DatabaseCacheInfo[];
+}
+
+// Requests sent from the main thread to the database worker
+export type WorkerRequest =
+  | { type: 'load'; id: number; year: number }
+  | { type: 'download'; id: number; year: number }
+  | { type: 'query'; id: number; year: number; sql: string; params?: any[] }
+  | { type: 'analyze'; id: number; year: number; options: AnalyzerOptions }
+  | { type: 'clear'; id: number; year?: number }
+  | { type: 'stats'; id: number }
+  | { type: 'checkUpdates'; id: number }
+  | { type: 'cancel'; id: number };
+
+// Messages sent from the database worker back to the main thread
+export type WorkerResponse =
+  | { type: 'result'; id: number; value: any }
+  | { type: 'error'; id: number; name: string; message: string; status?: number }
+  | { type: 'progress'; id: number; progress: LoadProgress }
+  | { type: 'started'; id: number }
+  | { type: 'memory'; status: MemoryStatus };
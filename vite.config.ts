@@ -1,10 +1,50 @@
-import { defineConfig } from 'vite'
+import { defineConfig, type Plugin } from 'vite'
 import react from '@vitejs/plugin-react'
+import { createHash } from 'crypto'
+import { readFileSync, readdirSync } from 'fs'
 import path from 'path'
 
+/**
+ * Emit the service worker (src/sw.js) with the list of files to precache:
+ * the app shell, everything in the bundle and the public files
+ */
+function serviceWorker(): Plugin {
+  return {
+    name: 'tok-reader-service-worker',
+    apply: 'build',
+    // After the other plugins, so the bundle is complete
+    enforce: 'post',
+    generateBundle(_options, bundle) {
+      const publicFiles = readdirSync(path.resolve(__dirname, 'public'))
+        // The redirect page is only for visits before the worker is installed
+        .filter((file) => file !== '404.html');
+      const urls = Array.from(new Set(['./', ...Object.keys(bundle), ...publicFiles])).sort();
+
+      // The version covers the contents too, since public files (and index.html)
+      // keep their names when they change
+      const hash = createHash('sha256');
+      for (const url of urls) {
+        hash.update(`${url}\n`);
+        const file = bundle[url];
+        if (file) {
+          hash.update(file.type === 'chunk' ? file.code : file.source);
+        } else if (url !== './') {
+          hash.update(readFileSync(path.resolve(__dirname, 'public', url)));
+        }
+      }
+      const version = hash.digest('hex').slice(0, 12);
+      const source = readFileSync(path.resolve(__dirname, 'src/sw.js'), 'utf8')
+        .replace('__SW_VERSION__', version)
+        .replace('__SW_PRECACHE__', JSON.stringify(urls));
+
+      this.emitFile({ type: 'asset', fileName: 'sw.js', source });
+    },
+  }
+}
+
 // https://vitejs.dev/config/
 export default defineConfig(({ command }) => ({
-  plugins: [react()],
+  plugins: [react(), serviceWorker()],
   base: command === 'serve' ? '/' : '/ToK-Reader/',
   resolve: {
     alias: {
@@ -18,7 +58,6 @@ export default defineConfig(({ command }) => ({
       output: {
         manualChunks: {
           'vendor-react': ['react', 'react-dom', 'react-router-dom'],
-          'vendor-db': ['pako'],
         }
       }
     }
@@ -29,8 +68,5 @@ export default defineConfig(({ command }) => ({
     }
   },
   publicDir: 'public',
-  optimizeDeps: {
-    exclude: ['sql.js']
-  },
   assetsInclude: ['**/*.wasm']
 }))